@@ -0,0 +1,216 @@
+import type { Caption, FontSize, OutputFormat } from "./types"
+
+// Line height as a multiple of the font size
+const LINE_HEIGHT = 1.25
+
+// Average glyph width as a share of the font size, used to wrap lines before
+// drawtext sees them (drawtext itself never wraps)
+const AVG_CHAR_WIDTH = { normal: 0.55, bold: 0.6 }
+
+const DEFAULT_MAX_WIDTH_PERCENT = 90
+const DEFAULT_ANIMATION_MS = 300
+const TYPEWRITER_MS_PER_CHAR = 40
+// Each typewriter step is a separate drawtext per line, so cap how many there are
+const MAX_TYPEWRITER_STEPS = 30
+
+// Get font size in pixels for a 1080px-wide vertical frame
+function getFontSizePixels(fontSize: FontSize): number {
+  switch (fontSize) {
+    case "small": return 48
+    case "medium": return 72
+    case "large": return 96
+    default: return 72
+  }
+}
+
+// Scale factor for pixel sizes designed against the 1080x1920 frame,
+// based on the shorter side so landscape outputs don't get giant text
+function getFrameScale(format: OutputFormat): number {
+  return Math.min(format.width, format.height) / 1080
+}
+
+// Escape text for use inside a single-quoted drawtext value
+function escapeDrawtext(text: string): string {
+  return text
+    .replace(/\\/g, "\\\\")
+    .replace(/'/g, "'\\''")
+    .replace(/:/g, "\\:")
+    .replace(/\[/g, "\\[")
+    .replace(/\]/g, "\\]")
+}
+
+// Greedy word wrap. Explicit newlines are kept, words longer than a line are split.
+function wrapText(text: string, maxChars: number): string[] {
+  const lines: string[] = []
+  const limit = Math.max(1, maxChars)
+
+  for (const paragraph of text.split("\n")) {
+    let line = ""
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      let rest = word
+      while (rest.length > limit) {
+        if (line) {
+          lines.push(line)
+          line = ""
+        }
+        lines.push(rest.slice(0, limit))
+        rest = rest.slice(limit)
+      }
+      if (!line) {
+        line = rest
+      } else if (line.length + 1 + rest.length <= limit) {
+        line += " " + rest
+      } else {
+        lines.push(line)
+        line = rest
+      }
+    }
+    lines.push(line)
+  }
+
+  return lines
+}
+
+// Build the drawtext filters for one caption. Every wrapped line gets its own
+// drawtext so each line can be centered (and boxed) on its own. Returns the
+// filters in order, to be joined with "," into a chain.
+export function buildCaptionFilters(caption: Caption, format: OutputFormat): string[] {
+  const scale = getFrameScale(format)
+  const weight = caption.style?.fontWeight || "normal"
+  const fontSize = Math.round(getFontSizePixels(caption.style?.fontSize || "medium") * scale)
+  const fontColor = caption.style?.color || "white"
+  const lineHeight = Math.round(fontSize * LINE_HEIGHT)
+
+  const maxWidthPx = format.width * (caption.maxWidth ?? DEFAULT_MAX_WIDTH_PERCENT) / 100
+  const charWidth = fontSize * AVG_CHAR_WIDTH[weight]
+  const lines = wrapText(caption.text, Math.floor(maxWidthPx / charWidth))
+
+  const start = caption.startTime
+  const end = caption.endTime
+  const animation = caption.animation || "none"
+  const animationSec = (caption.animationDuration ?? (animation === "typewriter"
+    ? caption.text.length * TYPEWRITER_MS_PER_CHAR
+    : DEFAULT_ANIMATION_MS)) / 1000
+
+  // Center of the text block
+  const centerX = caption.position ? `w*${caption.position.x}/100` : "w/2"
+  const centerY = caption.position ? `h*${caption.position.y}/100` : "h/2"
+  const blockTop = `${centerY}-${(lineHeight * lines.length) / 2}`
+
+  // Shared styling for every line
+  let style = `:fontcolor=${fontColor}`
+  if (caption.box) {
+    const padding = Math.round(caption.box.padding * scale)
+    style += `:box=1:boxcolor=${caption.box.color}@${caption.box.opacity}:boxborderw=${padding}`
+  } else {
+    style += `:borderw=${Math.max(1, Math.round(3 * scale))}`
+    style += `:bordercolor=black`
+    style += `:shadowcolor=black@0.6`
+    style += `:shadowx=${Math.max(1, Math.round(4 * scale))}`
+    style += `:shadowy=${Math.max(1, Math.round(4 * scale))}`
+  }
+  // Use bold font if specified
+  if (weight === "bold") {
+    style += `:font=DejaVu Sans Bold`
+  }
+
+  if (animation === "typewriter") {
+    return buildTypewriterFilters(lines, {
+      start, end, animationSec, fontSize, lineHeight, charWidth, centerX, blockTop, style,
+    })
+  }
+
+  // Animation progress from 0 to 1 over the entrance
+  const progress = `min(max((t-${start})/${Math.max(animationSec, 0.001)},0),1)`
+
+  return lines.flatMap((line, i) => {
+    // Blank lines only take up space
+    if (!line) {
+      return []
+    }
+
+    const lineTop = `${blockTop}+${i * lineHeight}`
+    let size = String(fontSize)
+    let y = lineTop
+    let alpha = "1"
+
+    switch (animation) {
+      case "fade":
+        alpha = progress
+        break
+      case "pop":
+        // Grow from half size, overshoot to 115%, settle at 100%
+        size = `${fontSize}*if(lt(${progress},0.7),0.5+0.65*${progress}/0.7,1.15-0.15*(${progress}-0.7)/0.3)`
+        alpha = `min(${progress}*3,1)`
+        break
+      case "slide":
+        // Rise into place by one line height while fading in
+        y = `${lineTop}+(1-${progress})*${lineHeight}`
+        alpha = progress
+        break
+    }
+
+    let filter = `drawtext=text='${escapeDrawtext(line)}':expansion=none`
+    filter += `:fontsize='${size}'`
+    // Center each line but keep it inside the frame
+    filter += `:x='max(0,min(w-text_w,${centerX}-text_w/2))'`
+    filter += `:y='${y}'`
+    filter += style
+    if (alpha !== "1") {
+      filter += `:alpha='${alpha}'`
+    }
+    filter += `:enable='between(t,${start},${end})'`
+    return [filter]
+  })
+}
+
+// Typewriter: reveal the text in steps. Lines are left-aligned at the
+// position their full text would be centered at, so nothing shifts as
+// characters appear.
+function buildTypewriterFilters(
+  lines: string[],
+  opts: {
+    start: number
+    end: number
+    animationSec: number
+    fontSize: number
+    lineHeight: number
+    charWidth: number
+    centerX: string
+    blockTop: string
+    style: string
+  }
+): string[] {
+  const totalChars = lines.reduce((sum, line) => sum + line.length, 0)
+  const steps = Math.max(1, Math.min(totalChars, MAX_TYPEWRITER_STEPS))
+  const filters: string[] = []
+
+  for (let step = 1; step <= steps; step++) {
+    const visible = Math.round((totalChars * step) / steps)
+    const stepStart = opts.start + (opts.animationSec * (step - 1)) / steps
+    const stepEnd = step === steps ? opts.end : opts.start + (opts.animationSec * step) / steps
+
+    let remaining = visible
+    lines.forEach((line, i) => {
+      if (remaining <= 0) {
+        return
+      }
+      const shown = line.slice(0, remaining)
+      remaining -= line.length
+      if (!shown) {
+        return
+      }
+
+      const halfWidth = (line.length * opts.charWidth) / 2
+      let filter = `drawtext=text='${escapeDrawtext(shown)}':expansion=none`
+      filter += `:fontsize=${opts.fontSize}`
+      filter += `:x='max(0,${opts.centerX}-${halfWidth})'`
+      filter += `:y='${opts.blockTop}+${i * opts.lineHeight}'`
+      filter += opts.style
+      filter += `:enable='between(t,${stepStart},${stepEnd})'`
+      filters.push(filter)
+    })
+  }
+
+  return filters
+}
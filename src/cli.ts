@@ -0,0 +1,230 @@
+#!/usr/bin/env node
+import { mkdir, readFile } from "fs/promises"
+import path from "path"
+import { pathToFileURL } from "url"
+import { enableLocalSources } from "./download"
+import { JobError } from "./errors"
+import { buildFFmpegArgs } from "./ffmpeg"
+import { normalizeJob } from "./local"
+import { log, parseLogFormat, setLogFormat, setLogStream } from "./logger"
+import { TMP_DIR, cleanup, getFFmpegArgv, prepareJob, runFFmpeg } from "./processor"
+import type { JobConfig, OutputFormat, VideoJob } from "./types"
+import { planSharedSegments } from "./variants"
+
+const USAGE = `Usage: hookly-render <job.json> [--out out.mp4] [--print-command]
+
+Renders a VideoJob or JobConfig JSON file with the worker's FFmpeg pipeline.
+Sources may be URLs or local paths (relative to the JSON file).
+
+Options:
+  --out <file>      Output file (default: out.mp4). Extra formats from
+                    config.outputs are written next to it as <out>-<preset>.mp4,
+                    batch variants from config.variants as <out>-<variant>.mp4
+  --print-command   Print the FFmpeg argv and filtergraph instead of rendering`
+
+interface CliOptions {
+  jobPath: string
+  outPath: string
+  printCommand: boolean
+}
+
+function usageError(message: string): never {
+  console.error(`❌ ${message}\n\n${USAGE}`)
+  process.exit(1)
+}
+
+function parseArgs(argv: string[]): CliOptions {
+  let jobPath: string | null = null
+  let outPath = "out.mp4"
+  let printCommand = false
+
+  for (let i = 0; i < argv.length; i++) {
+    const arg = argv[i]
+    if (arg === "--help" || arg === "-h") {
+      console.log(USAGE)
+      process.exit(0)
+    } else if (arg === "--out" || arg === "-o") {
+      const value = argv[++i]
+      if (!value) {
+        usageError(`${arg} needs a file name`)
+      }
+      outPath = value
+    } else if (arg === "--print-command") {
+      printCommand = true
+    } else if (arg.startsWith("-")) {
+      usageError(`Unknown option ${arg}`)
+    } else if (jobPath) {
+      usageError(`Unexpected argument ${arg}`)
+    } else {
+      jobPath = arg
+    }
+  }
+
+  if (!jobPath) {
+    usageError("Missing job file")
+  }
+  return { jobPath, outPath: path.resolve(outPath), printCommand }
+}
+
+// URLs pass through, anything else is a path relative to the job file
+function toSourceUrl(value: string | undefined, baseDir: string): string | undefined {
+  if (!value || /^[a-z][a-z0-9+.-]*:\/\//i.test(value)) {
+    return value
+  }
+  return pathToFileURL(path.resolve(baseDir, value)).href
+}
+
+function resolveSources(job: VideoJob, baseDir: string): void {
+  job.intro_url = toSourceUrl(job.intro_url, baseDir) ?? ""
+  job.main_url = toSourceUrl(job.main_url, baseDir) ?? ""
+
+  const config = job.config
+  if (!config) {
+    return
+  }
+  config.demoSubtitlesUrl = toSourceUrl(config.demoSubtitlesUrl, baseDir)
+  for (const segment of config.segments || []) {
+    segment.url = toSourceUrl(segment.url, baseDir) ?? ""
+    segment.subtitlesUrl = toSourceUrl(segment.subtitlesUrl, baseDir)
+  }
+  if (config.music) {
+    config.music.url = toSourceUrl(config.music.url, baseDir) ?? ""
+  }
+  if (config.watermark) {
+    config.watermark.url = toSourceUrl(config.watermark.url, baseDir) ?? ""
+  }
+}
+
+// A file with any job row field is a VideoJob; otherwise it's the config alone
+async function loadJob(jobPath: string): Promise<VideoJob> {
+  const raw: unknown = JSON.parse(await readFile(jobPath, "utf8"))
+  if (typeof raw !== "object" || raw === null || Array.isArray(raw)) {
+    throw new Error(`${jobPath} must contain a JSON object`)
+  }
+
+  const isJob = ["intro_url", "main_url", "hook_text", "config"].some((field) => field in raw)
+  const job = normalizeJob(isJob ? (raw as Partial<VideoJob>) : { config: raw as JobConfig })
+  resolveSources(job, path.dirname(path.resolve(jobPath)))
+  return job
+}
+
+// The first format goes to --out, the rest next to it with the preset name.
+// Batch variants add their name: <out>-<variant>.mp4, <out>-<variant>-<preset>.mp4
+function getOutputPath(outPath: string, format: OutputFormat, formatIndex: number, variant: string | null): string {
+  const extension = path.extname(outPath) || ".mp4"
+  const base = outPath.slice(0, outPath.length - path.extname(outPath).length)
+  const suffix = `${variant ? `-${variant}` : ""}${formatIndex === 0 ? "" : `-${format.name}`}`
+  return suffix ? `${base}${suffix}${extension}` : outPath
+}
+
+// Run one FFmpeg command with a percentage on the terminal
+async function runWithProgress(args: string[], duration: number, signal: AbortSignal): Promise<void> {
+  let lastPercent = -1
+  const result = await runFFmpeg(args, signal, (outTimeSec) => {
+    const percent = Math.min(100, Math.floor((outTimeSec / duration) * 100))
+    if (duration > 0 && percent > lastPercent) {
+      lastPercent = percent
+      process.stdout.write(`\r   ⏳ ${percent}%`)
+    }
+  })
+  if (lastPercent >= 0) {
+    process.stdout.write("\n")
+  }
+
+  if (!result.success) {
+    throw new JobError("ffmpeg", result.errorClass ?? "retryable", result.error ?? "FFmpeg failed")
+  }
+}
+
+function shellQuote(arg: string): string {
+  return /^[\w@%+=:,./-]+$/.test(arg) ? arg : `'${arg.replace(/'/g, `'\\''`)}'`
+}
+
+function printCommand(title: string, args: string[]): void {
+  console.info(`# ${title}`)
+  console.info(["ffmpeg", ...getFFmpegArgv(args)].map(shellQuote).join(" "))
+
+  const filterIdx = args.indexOf("-filter_complex")
+  if (filterIdx !== -1) {
+    console.info(`\n# filtergraph\n${args[filterIdx + 1].split(";").join(";\n")}\n`)
+  }
+}
+
+async function main(): Promise<void> {
+  const options = parseArgs(process.argv.slice(2))
+  setLogFormat(parseLogFormat(process.env.LOG_FORMAT || "pretty"))
+
+  // Keep stdout for the command itself so it can be piped or saved
+  if (options.printCommand) {
+    setLogStream(process.stderr)
+  }
+
+  enableLocalSources()
+  const job = await loadJob(options.jobPath)
+
+  const controller = new AbortController()
+  process.once("SIGINT", () => controller.abort())
+
+  const filesToCleanup: string[] = []
+  let keepInputs = false
+  try {
+    // No user settings locally, so only the job's own watermark applies
+    const { inputs, formats, extras, variants } = await prepareJob(job, { getUserSettings: async () => null }, {
+      filesToCleanup,
+      signal: controller.signal,
+    })
+
+    if (!options.printCommand) {
+      await mkdir(path.dirname(options.outPath), { recursive: true })
+    }
+
+    const renders = variants ?? [{ name: null, job, inputs }]
+    for (const [formatIndex, format] of formats.entries()) {
+      const size = `${format.width}x${format.height}@${format.fps}fps`
+
+      // Batches render the demo once per format and reuse it for every variant
+      const shared = variants ? planSharedSegments(inputs, format, path.join(TMP_DIR, job.id)) : null
+      if (shared) {
+        filesToCleanup.push(...shared.paths)
+        for (const [i, command] of shared.commands.entries()) {
+          if (options.printCommand) {
+            printCommand(`${format.name} shared segment ${i + 1} (${size})`, command.args)
+            continue
+          }
+          log.info("Rendering shared segment", { preset: format.name, segment: i + 1, size })
+          await runWithProgress(command.args, command.duration, controller.signal)
+        }
+      }
+
+      for (const render of renders) {
+        const outputPath = getOutputPath(options.outPath, format, formatIndex, render.name)
+        const renderInputs = shared ? [render.inputs[0], ...shared.inputs] : render.inputs
+        const ffmpegCommand = buildFFmpegArgs(renderInputs, outputPath, render.job.hook_text, render.job.config, format, extras)
+        const title = render.name ? `${render.name} ${format.name}` : format.name
+        if (options.printCommand) {
+          printCommand(`${title} (${size})`, ffmpegCommand.args)
+          continue
+        }
+
+        log.info("Rendering", { variant: render.name ?? undefined, preset: format.name, size })
+        await runWithProgress(ffmpegCommand.args, ffmpegCommand.duration, controller.signal)
+        log.info("Wrote output", { path: outputPath })
+      }
+    }
+
+    if (options.printCommand) {
+      // Keep the downloaded inputs so the printed command runs as is
+      keepInputs = true
+      log.info("Inputs kept for the printed command", { directory: path.dirname(inputs[0].path) })
+    }
+  } finally {
+    if (!keepInputs) {
+      await cleanup(filesToCleanup)
+    }
+  }
+}
+
+main().catch((err) => {
+  log.error("Render failed", { error: err })
+  process.exit(1)
+})
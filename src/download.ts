@@ -0,0 +1,203 @@
+import { createWriteStream, existsSync } from "fs"
+import { copyFile } from "fs/promises"
+import { Readable } from "stream"
+import { pipeline } from "stream/promises"
+import type { ReadableStream as WebReadableStream } from "stream/web"
+import { fileURLToPath } from "url"
+import { JobError, retryable, permanent, isRetryableStatus } from "./errors"
+import { log } from "./logger"
+import { downloadBytes } from "./metrics"
+import { MAX_INPUT_BYTES } from "./probe"
+
+// Time allowed until response headers arrive, and between body chunks
+const DOWNLOAD_CONNECT_TIMEOUT_MS = parseInt(process.env.DOWNLOAD_CONNECT_TIMEOUT_MS || "15000", 10)
+const DOWNLOAD_READ_TIMEOUT_MS = parseInt(process.env.DOWNLOAD_READ_TIMEOUT_MS || "30000", 10)
+
+// Extra hosts sources may be fetched from, e.g. "cdn.example.com,*.example.org".
+// The project's own Supabase Storage is always allowed (see below).
+const ALLOWED_SOURCE_HOSTS = (process.env.ALLOWED_SOURCE_HOSTS || "")
+  .split(",")
+  .map((host) => host.trim().toLowerCase())
+  .filter(Boolean)
+
+// Storage buckets on the project's Supabase host that sources may come from
+const ALLOWED_STORAGE_BUCKETS = (process.env.ALLOWED_STORAGE_BUCKETS || "videos")
+  .split(",")
+  .map((bucket) => bucket.trim())
+  .filter(Boolean)
+
+const MAX_REDIRECTS = 5
+
+// file:// sources are only for the CLI, which renders the caller's own files.
+// The worker never turns this on.
+let localSourcesEnabled = false
+
+export function enableLocalSources(): void {
+  localSourcesEnabled = true
+}
+
+// Public, signed and authenticated object URLs: /storage/v1/object/<kind>/<bucket>/<path>
+const STORAGE_OBJECT_PATTERN = /^\/storage\/v1\/object\/(?:public|sign|authenticated)\/([^/]+)\/./
+
+function getSupabaseHost(): string | null {
+  try {
+    return new URL(process.env.SUPABASE_URL || "").host.toLowerCase()
+  } catch {
+    return null
+  }
+}
+
+function matchesHost(host: string, pattern: string): boolean {
+  if (pattern.startsWith("*.")) {
+    return host.endsWith(pattern.slice(1))
+  }
+  return host === pattern
+}
+
+// Why the worker may not fetch `url`, or null if it may. Anything outside the
+// allowlist is refused so a job can't point the service-role worker at
+// internal addresses.
+export function getSourceUrlError(url: string): string | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return "is not a valid URL"
+  }
+  if (parsed.protocol === "file:" && localSourcesEnabled) {
+    return null
+  }
+  if (parsed.protocol !== "https:" && parsed.protocol !== "http:") {
+    return "must be an http(s) URL"
+  }
+  if (parsed.username || parsed.password) {
+    return "must not contain credentials"
+  }
+
+  const host = parsed.host.toLowerCase()
+  if (ALLOWED_SOURCE_HOSTS.some((pattern) => matchesHost(host, pattern))) {
+    return null
+  }
+  if (host === getSupabaseHost()) {
+    const bucket = parsed.pathname.match(STORAGE_OBJECT_PATTERN)?.[1]
+    if (bucket && ALLOWED_STORAGE_BUCKETS.includes(decodeURIComponent(bucket))) {
+      return null
+    }
+    return `must point at a file in an allowed storage bucket (${ALLOWED_STORAGE_BUCKETS.join(", ")})`
+  }
+  return `host ${parsed.host} is not an allowed source`
+}
+
+function assertAllowedSource(url: string): void {
+  const reason = getSourceUrlError(url)
+  if (reason) {
+    throw permanent("download", `Refusing to download ${url.slice(0, 80)}: ${reason}`)
+  }
+}
+
+// Stream a file from an allowed URL to disk. Redirects are followed by hand so
+// every hop is checked against the allowlist, and the size limit is enforced
+// on Content-Length and again while streaming.
+export async function downloadFile(url: string, outputPath: string, signal?: AbortSignal): Promise<void> {
+  if (url.startsWith("file:")) {
+    return copyLocalFile(url, outputPath)
+  }
+
+  log.info("Downloading", { url })
+
+  const timeoutController = new AbortController()
+  const fetchSignal = signal ? AbortSignal.any([signal, timeoutController.signal]) : timeoutController.signal
+  let timedOut: string | null = null
+  let timer: NodeJS.Timeout | undefined
+
+  const armTimer = (ms: number, reason: string) => {
+    clearTimeout(timer)
+    timer = setTimeout(() => {
+      timedOut = reason
+      timeoutController.abort()
+    }, ms)
+  }
+
+  // Network-level failures (DNS, reset connections, timeouts) are usually transient
+  const toJobError = (err: unknown): JobError => {
+    if (err instanceof JobError) {
+      return err
+    }
+    if (timedOut) {
+      return retryable("download", `Download timed out: ${timedOut}`)
+    }
+    const message = err instanceof Error ? err.message : "Unknown error"
+    return retryable("download", `Failed to download: ${message}`)
+  }
+
+  let bytes = 0
+  try {
+    let response: Response
+    let currentUrl = url
+    for (let redirects = 0; ; redirects++) {
+      assertAllowedSource(currentUrl)
+      armTimer(DOWNLOAD_CONNECT_TIMEOUT_MS, `no response within ${DOWNLOAD_CONNECT_TIMEOUT_MS}ms`)
+      response = await fetch(currentUrl, { signal: fetchSignal, redirect: "manual" })
+
+      const location = response.headers.get("location")
+      if (response.status < 300 || response.status >= 400 || !location) {
+        break
+      }
+      if (redirects >= MAX_REDIRECTS) {
+        throw permanent("download", `Failed to download: more than ${MAX_REDIRECTS} redirects`)
+      }
+      await response.body?.cancel()
+      currentUrl = new URL(location, currentUrl).toString()
+    }
+
+    if (!response.ok) {
+      const message = `Failed to download: ${response.status} ${response.statusText}`
+      throw isRetryableStatus(response.status)
+        ? retryable("download", message)
+        : permanent("download", message)
+    }
+
+    const declaredBytes = parseInt(response.headers.get("content-length") || "", 10)
+    if (declaredBytes > MAX_INPUT_BYTES) {
+      throw permanent("download", `File is ${declaredBytes} bytes, the limit is ${MAX_INPUT_BYTES}`)
+    }
+    if (!response.body) {
+      throw retryable("download", "Failed to download: response has no body")
+    }
+
+    armTimer(DOWNLOAD_READ_TIMEOUT_MS, `no data for ${DOWNLOAD_READ_TIMEOUT_MS}ms`)
+    await pipeline(
+      Readable.fromWeb(response.body as WebReadableStream<Uint8Array>),
+      async function* (source: AsyncIterable<Buffer>) {
+        for await (const chunk of source) {
+          bytes += chunk.length
+          // Content-Length can be missing or wrong, so count as we go
+          if (bytes > MAX_INPUT_BYTES) {
+            throw permanent("download", `File is over the ${MAX_INPUT_BYTES} byte limit`)
+          }
+          armTimer(DOWNLOAD_READ_TIMEOUT_MS, `no data for ${DOWNLOAD_READ_TIMEOUT_MS}ms`)
+          yield chunk
+        }
+      },
+      createWriteStream(outputPath)
+    )
+  } catch (err) {
+    throw toJobError(err)
+  } finally {
+    clearTimeout(timer)
+    // Count partial downloads too: the bandwidth was spent either way
+    downloadBytes.inc(bytes)
+  }
+
+  log.info("Downloaded", { url, path: outputPath, bytes })
+}
+
+async function copyLocalFile(url: string, outputPath: string): Promise<void> {
+  assertAllowedSource(url)
+  const sourcePath = fileURLToPath(url)
+  if (!existsSync(sourcePath)) {
+    throw permanent("download", `No such file: ${sourcePath}`)
+  }
+  await copyFile(sourcePath, outputPath)
+  log.info("Copied local source", { source: sourcePath, path: outputPath })
+}
@@ -0,0 +1,40 @@
+import type { ErrorClass, FieldError, JobStage } from "./types"
+
+// Error raised by a processing stage, tagged with whether a retry could help
+export class JobError extends Error {
+  readonly stage: JobStage
+  readonly errorClass: ErrorClass
+
+  constructor(stage: JobStage, errorClass: ErrorClass, message: string) {
+    super(message)
+    this.name = "JobError"
+    this.stage = stage
+    this.errorClass = errorClass
+  }
+}
+
+// Job config that failed validation. The message lists every field problem,
+// one per line, so it reads well when stored in error_message.
+export class ValidationError extends JobError {
+  readonly fieldErrors: FieldError[]
+
+  constructor(fieldErrors: FieldError[]) {
+    const lines = fieldErrors.map((e) => `- ${e.field}: ${e.message}`)
+    super("config", "permanent", `Invalid job config:\n${lines.join("\n")}`)
+    this.name = "ValidationError"
+    this.fieldErrors = fieldErrors
+  }
+}
+
+export function retryable(stage: JobStage, message: string): JobError {
+  return new JobError(stage, "retryable", message)
+}
+
+export function permanent(stage: JobStage, message: string): JobError {
+  return new JobError(stage, "permanent", message)
+}
+
+// HTTP statuses worth retrying: timeouts, rate limits and server errors
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500
+}
@@ -0,0 +1,75 @@
+import { log } from "./logger"
+import type { JobQueue } from "./queue"
+import type { JobEvent, JobEventOutcome, VideoJob } from "./types"
+
+export interface JobEventRecorder {
+  // End the current stage as "ok" and start `stage`
+  stage(stage: string): void
+  // End the current stage with `outcome`. Later calls are ignored.
+  finish(outcome: JobEventOutcome, details?: Record<string, unknown>): void
+  // Wait for pending writes to land
+  flush(): Promise<void>
+}
+
+// Record each stage of an attempt with its timing. Like progress, events are
+// best effort: write failures are logged and never fail the job.
+export function createJobEventRecorder(queue: Pick<JobQueue, "recordJobEvent">, job: VideoJob): JobEventRecorder {
+  let current: { stage: string; startedAt: number } | null = null
+  let finished = false
+  let pending: Promise<void> = Promise.resolve()
+
+  function end(outcome: JobEventOutcome, details: Record<string, unknown> | null): void {
+    if (!current) {
+      return
+    }
+    const event: JobEvent = {
+      job_id: job.id,
+      worker_id: job.worker_id,
+      attempt: job.attempts,
+      stage: current.stage,
+      outcome,
+      started_at: new Date(current.startedAt).toISOString(),
+      duration_ms: Date.now() - current.startedAt,
+      details,
+    }
+    current = null
+
+    const logFields = { stage: event.stage, outcome, duration_ms: event.duration_ms, ...details }
+    if (outcome === "error") {
+      log.error("Stage failed", logFields)
+    } else {
+      log.info("Stage finished", logFields)
+    }
+
+    // Chain writes so they land in order
+    pending = pending.then(async () => {
+      try {
+        await queue.recordJobEvent(event)
+      } catch (err) {
+        log.warn("Failed to record job event", { stage: event.stage, error: err })
+      }
+    })
+  }
+
+  return {
+    stage(stage) {
+      if (finished) {
+        return
+      }
+      end("ok", null)
+      current = { stage, startedAt: Date.now() }
+    },
+
+    finish(outcome, details) {
+      if (finished) {
+        return
+      }
+      finished = true
+      end(outcome, details ?? null)
+    },
+
+    flush() {
+      return pending
+    },
+  }
+}
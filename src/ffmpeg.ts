@@ -0,0 +1,488 @@
+import { buildCaptionFilters } from "./captions"
+import { permanent } from "./errors"
+import { log } from "./logger"
+import { getActiveTrim, getSegmentDuration } from "./timeline"
+import { buildMusicFilters, buildMusicInputArgs } from "./music"
+import { buildWatermarkFilters } from "./watermark"
+import type { MusicTrack, Watermark, JobConfig, Segment, SegmentEffect, Transition, AudioSource, OutputFormat, Caption, SubtitleCue, MediaInfo } from "./types"
+
+// A downloaded timeline segment plus what we probed from it
+export interface SegmentInput {
+  path: string
+  segment: Segment
+  media: MediaInfo
+  // Parsed subtitle file to burn in, if the segment has one
+  subtitles?: SubtitleCue[]
+}
+
+// A downloaded watermark image and how to place it
+export interface WatermarkInput {
+  path: string
+  watermark: Watermark
+}
+
+// A downloaded music track and how to mix it
+export interface MusicInput {
+  path: string
+  music: MusicTrack
+}
+
+// Inputs beyond the timeline segments
+export interface ExtraInputs {
+  watermark?: WatermarkInput | null
+  music?: MusicInput | null
+}
+
+export interface FFmpegCommand {
+  args: string[]
+  // Expected length of the rendered output in seconds
+  duration: number
+  // How long the first segment (and its hook text) is on screen on its own,
+  // before the next segment starts to cut or fade in
+  hookDuration: number
+}
+
+// Get intensity multiplier for effects
+function getIntensityMultiplier(intensity: "subtle" | "medium" | "strong"): number {
+  switch (intensity) {
+    case "subtle": return 0.5
+    case "medium": return 1.0
+    case "strong": return 1.5
+    default: return 1.0
+  }
+}
+
+// Build effect filter (used for every segment)
+// `duration` is the segment length in seconds after trimming. Animated effects
+// are driven by time so they always span the segment exactly.
+//
+// zoompan runs with d=1 (one output frame per input frame) at the output fps,
+// so frame count and duration are unchanged. Its default d=90 is what used to
+// stretch clips and blow up render times.
+function buildEffectFilter(effect: SegmentEffect, duration: number, format: OutputFormat): string {
+  const intensity = getIntensityMultiplier(effect.intensity)
+  const { width, height, fps } = format
+  const totalFrames = Math.max(1, Math.round(duration * fps))
+  // Keep the zoomed window centered
+  const centerX = "iw/2-(iw/zoom/2)"
+  const centerY = "ih/2-(ih/zoom/2)"
+
+  switch (effect.type) {
+    case "zoom-in": {
+      // Slow push-in across the whole segment
+      const maxZoom = 0.15 * intensity
+      const zoom = `1+${maxZoom}*min(on/${totalFrames},1)`
+      return `zoompan=z='${zoom}':x='${centerX}':y='${centerY}':d=1:s=${width}x${height}:fps=${fps}`
+    }
+
+    case "punch-zoom": {
+      // Snap in over the first 0.1s (the first beat), then ease back out
+      const punch = 0.25 * intensity
+      const t = `(on/${fps})`
+      const zoom = `if(lt(${t},0.1),1+${punch}*${t}/0.1,1+${punch}*exp(-(${t}-0.1)/0.3))`
+      return `zoompan=z='${zoom}':x='${centerX}':y='${centerY}':d=1:s=${width}x${height}:fps=${fps}`
+    }
+
+    case "vertical-pan": {
+      // Zoom in a little and scroll the window from top to bottom. crop
+      // evaluates x/y per frame, so this needs no zoompan at all.
+      const panZoom = 1 + (0.2 * intensity)
+      const scaledW = Math.round(width * panZoom)
+      const scaledH = Math.round(height * panZoom)
+      const y = `(ih-${height})*min(t/${Math.max(duration, 1 / fps)},1)`
+      return `scale=${scaledW}:${scaledH},crop=${width}:${height}:(iw-${width})/2:'${y}'`
+    }
+
+    case "center-crop": {
+      // Simple scale+crop - fast and reliable
+      const cropZoom = 1 + (0.1 * intensity)
+      return `scale=${Math.round(width * cropZoom)}:${Math.round(height * cropZoom)},crop=${width}:${height}:(iw-${width})/2:(ih-${height})/2`
+    }
+
+    default:
+      return ""
+  }
+}
+
+// Rotate a clip clockwise by the given multiple of 90 degrees
+function buildRotationFilter(rotation: number): string {
+  switch (rotation) {
+    case 90: return "transpose=clock"
+    case 180: return "hflip,vflip"
+    case 270: return "transpose=cclock"
+    default: return ""
+  }
+}
+
+// Get when the transition starts and how long the overlap lasts (seconds).
+// `previousDuration` is the length of everything before the transition.
+function getTransitionTiming(transition: Transition, previousDuration: number): { offset: number; duration: number } {
+  const durationSec = transition.duration / 1000
+  const offset = Math.max(0, previousDuration - durationSec)
+
+  // Zoom cut - quick zoom at the cut point
+  const duration = transition.type === "zoom-cut" ? Math.min(durationSec, 0.3) : durationSec
+
+  return { offset, duration }
+}
+
+// Build transition filter between two segments
+function buildTransitionFilter(transition: Transition, previousDuration: number): string {
+  const { offset, duration } = getTransitionTiming(transition, previousDuration)
+
+  switch (transition.type) {
+    case "crossfade":
+      return `xfade=transition=fade:duration=${duration}:offset=${offset}`
+
+    case "push-up":
+      return `xfade=transition=slideup:duration=${duration}:offset=${offset}`
+
+    case "zoom-cut":
+      return `xfade=transition=zoomin:duration=${duration}:offset=${offset}`
+
+    case "cut":
+    default:
+      // Simple concat, no transition filter needed
+      return ""
+  }
+}
+
+// Build the audio chain for one input: trimmed to the same window as its video,
+// normalized to a common format and padded/cut to exactly `duration` seconds so
+// it stays in sync with the video. Falls back to silence when the input has no
+// audio or the source isn't selected.
+function buildAudioSegmentFilter(
+  inputIndex: number,
+  useInputAudio: boolean,
+  trim: { startTime: number; endTime: number } | null,
+  duration: number,
+  label: string
+): string {
+  const format = "aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo"
+
+  if (!useInputAudio) {
+    return `anullsrc=r=48000:cl=stereo,atrim=duration=${duration},${format}[${label}]`
+  }
+
+  let filter = `[${inputIndex}:a]`
+  if (trim) {
+    filter += `atrim=start=${trim.startTime}:end=${trim.endTime},asetpts=PTS-STARTPTS,`
+  }
+  filter += `${format},apad,atrim=duration=${duration}[${label}]`
+  return filter
+}
+
+// Turn a segment's subtitle cues into captions on the output timeline: shift
+// them by the trim start and the segment's position, and drop or clip cues
+// that fall outside the trimmed window
+function buildSubtitleCaptions(
+  cues: SubtitleCue[],
+  segment: Segment,
+  segmentStart: number,
+  segmentDuration: number,
+  config: JobConfig | null | undefined
+): Caption[] {
+  const trimStart = getActiveTrim(segment)?.startTime ?? 0
+  const style = config?.subtitleStyle || {
+    fontSize: "small" as const,
+    color: config?.textStyle?.color || "white",
+    fontWeight: config?.textStyle?.fontWeight,
+  }
+
+  return cues.flatMap((cue) => {
+    const start = Math.max(0, cue.start - trimStart)
+    const end = Math.min(segmentDuration, cue.end - trimStart)
+    if (end <= start) {
+      return []
+    }
+    return [{
+      text: cue.text,
+      startTime: segmentStart + start,
+      endTime: segmentStart + end,
+      style,
+      position: { x: 50, y: 85 },
+      box: { color: "black", opacity: 0.5, padding: 12 },
+    }]
+  })
+}
+
+// Video chain for one segment: trimmed, upright, fitted to the output format
+// and with its effect applied. `duration` is the segment length after trimming.
+function buildSegmentVideoFilter(input: SegmentInput, duration: number, format: OutputFormat): string {
+  const { segment } = input
+  const { width, height, fps } = format
+  let filter = ""
+
+  // Apply trimming first if needed
+  const trim = getActiveTrim(segment)
+  if (trim) {
+    filter += `trim=start=${trim.startTime}:end=${trim.endTime},setpts=PTS-STARTPTS,`
+  }
+
+  // Turn phone clips upright before fitting them to the frame
+  const rotationFilter = buildRotationFilter(input.media.rotation)
+  if (rotationFilter) {
+    filter += `${rotationFilter},`
+  }
+
+  // Scale to the output format
+  filter += `scale=${width}:${height}:force_original_aspect_ratio=decrease,`
+  filter += `pad=${width}:${height}:(ow-iw)/2:(oh-ih)/2:black,`
+  filter += `setsar=1,fps=${fps}`
+
+  // Apply segment effect if specified
+  if (segment.effect && segment.effect.type !== "none") {
+    const effectFilter = buildEffectFilter(segment.effect, duration, format)
+    if (effectFilter) {
+      filter += "," + effectFilter
+    }
+  }
+
+  return filter
+}
+
+// Render one segment on its own, already in `format`, to an intermediate file
+// that batch variants reuse instead of decoding and filtering the source again.
+// The video is encoded near-lossless since every variant encodes it once more;
+// audio is trimmed and kept as PCM, so `outputPath` should be a .mkv.
+export function buildNormalizeArgs(input: SegmentInput, outputPath: string, format: OutputFormat): { args: string[]; duration: number } {
+  const duration = getSegmentDuration(input.segment, input.media.duration)
+  const filterParts = [`[0:v]${buildSegmentVideoFilter(input, duration, format)}[outv]`]
+  if (input.media.hasAudio) {
+    filterParts.push(buildAudioSegmentFilter(0, true, getActiveTrim(input.segment), duration, "outa"))
+  }
+
+  const args = ["-y", "-noautorotate", "-i", input.path, "-filter_complex", filterParts.join(";"), "-map", "[outv]"]
+  if (input.media.hasAudio) {
+    args.push("-map", "[outa]", "-c:a", "pcm_s16le")
+  } else {
+    args.push("-an")
+  }
+  args.push("-c:v", "libx264", "-preset", "veryfast", "-crf", "12", "-pix_fmt", "yuv420p", outputPath)
+
+  return { args, duration }
+}
+
+// Whether a segment contributes its own audio for the given source setting.
+// "hook" is the first segment, "demo" is everything after it.
+function usesSegmentAudio(audioSource: AudioSource, index: number): boolean {
+  switch (audioSource) {
+    case "both": return true
+    case "hook": return index === 0
+    case "demo": return index > 0
+    default: return false
+  }
+}
+
+// Build FFmpeg command for the whole timeline with all effects and audio.
+// Segments are chained pairwise; every xfade offset is measured from the
+// start of the output so far, so offsets accumulate along the timeline.
+export function buildFFmpegArgs(
+  inputs: SegmentInput[],
+  outputPath: string,
+  hookText: string | null,
+  config: JobConfig | null | undefined,
+  format: OutputFormat,
+  extras: ExtraInputs = {}
+): FFmpegCommand {
+  const { watermark, music } = extras
+  const { fps } = format
+  const args: string[] = ["-y"] // Overwrite output
+
+  // Add inputs. Rotation is applied explicitly in the filtergraph below, so
+  // turn off FFmpeg's automatic rotation to avoid rotating twice.
+  for (const input of inputs) {
+    args.push("-noautorotate", "-i", input.path)
+  }
+  // Extra inputs follow the segments
+  let nextInputIndex = inputs.length
+  const watermarkIndex = watermark ? nextInputIndex++ : -1
+  const musicIndex = music ? nextInputIndex++ : -1
+  if (watermark) {
+    args.push("-i", watermark.path)
+  }
+  if (music) {
+    args.push(...buildMusicInputArgs(music.music, music.path))
+  }
+
+  const durations = inputs.map((input) => getSegmentDuration(input.segment, input.media.duration))
+  const filterParts: string[] = []
+
+  // === SEGMENT VIDEO PROCESSING ===
+  inputs.forEach((input, i) => {
+    let filter = `[${i}:v]${buildSegmentVideoFilter(input, durations[i], format)}`
+
+    // Hook text goes on the first segment, for as long as it lasts
+    if (i === 0 && hookText) {
+      const hookCaption = {
+        text: hookText,
+        startTime: 0,
+        endTime: durations[0],
+        style: config?.textStyle,
+        position: config?.textPosition,
+      }
+      for (const textFilter of buildCaptionFilters(hookCaption, format)) {
+        filter += "," + textFilter
+      }
+    }
+
+    filter += `[v${i}]`
+    filterParts.push(filter)
+  })
+
+  // === COMBINE SEGMENTS ===
+  // Overlap of each join, or null for a hard cut
+  const joins: ({ offset: number; duration: number } | null)[] = []
+  // Where each segment starts on the output timeline
+  const segmentStarts = [0]
+  let videoLabel = "v0"
+  let timelineDuration = durations[0]
+
+  for (let i = 1; i < inputs.length; i++) {
+    const transition = inputs[i - 1].segment.transition
+    const outLabel = i === inputs.length - 1 ? "vtl" : `vx${i}`
+
+    const transitionFilter = transition && transition.type !== "cut" && transition.duration > 0
+      ? buildTransitionFilter(transition, timelineDuration)
+      : ""
+
+    if (transition && transitionFilter) {
+      const timing = getTransitionTiming(transition, timelineDuration)
+      filterParts.push(`[${videoLabel}][v${i}]${transitionFilter}[${outLabel}]`)
+      joins.push(timing)
+      segmentStarts.push(timing.offset)
+      timelineDuration = timing.offset + durations[i]
+    } else {
+      // concat outputs microsecond timestamps and no frame rate; put both back
+      // to the segments' so a later xfade accepts the result as an input
+      filterParts.push(`[${videoLabel}][v${i}]concat=n=2:v=1:a=0,settb=1/${fps},fps=${fps}[${outLabel}]`)
+      joins.push(null)
+      segmentStarts.push(timelineDuration)
+      timelineDuration += durations[i]
+    }
+
+    videoLabel = outLabel
+  }
+
+  if (inputs.length === 1) {
+    filterParts.push("[v0]null[vtl]")
+  }
+
+  // === WATERMARK ===
+  // Composited after effects and transitions, below captions so it never covers text
+  const hookDuration = segmentStarts[1] ?? timelineDuration
+  let captionBaseLabel = "vtl"
+  if (watermark) {
+    filterParts.push(...buildWatermarkFilters(watermarkIndex, watermark.watermark, format, hookDuration, "vtl", "vwm"))
+    captionBaseLabel = "vwm"
+  }
+
+  // === CAPTIONS ===
+  // Drawn over the combined timeline so they can span segments and transitions
+  const captionFilters = (config?.captions || []).flatMap((caption) => {
+    if (caption.segment === undefined) {
+      return buildCaptionFilters(caption, format)
+    }
+    const segmentStart = segmentStarts[caption.segment]
+    if (segmentStart === undefined) {
+      throw permanent("config", `Caption "${caption.text.slice(0, 30)}" refers to missing segment ${caption.segment}`)
+    }
+    return buildCaptionFilters({
+      ...caption,
+      startTime: segmentStart + caption.startTime,
+      endTime: segmentStart + caption.endTime,
+    }, format)
+  })
+
+  // Burned-in subtitles are drawn the same way, timed to their segment
+  inputs.forEach((input, i) => {
+    if (!input.subtitles) {
+      return
+    }
+    for (const caption of buildSubtitleCaptions(input.subtitles, input.segment, segmentStarts[i], durations[i], config)) {
+      captionFilters.push(...buildCaptionFilters(caption, format))
+    }
+  })
+
+  filterParts.push(`[${captionBaseLabel}]${captionFilters.length > 0 ? captionFilters.join(",") : "null"}[outv]`)
+
+  // === AUDIO ===
+  const audioSource: AudioSource = config?.audioSource || "none"
+  // With music, the hook/demo audio is mixed with it before it becomes [outa]
+  const voiceLabel = music ? "vox" : "outa"
+
+  if (audioSource !== "none") {
+    inputs.forEach((input, i) => {
+      const wanted = usesSegmentAudio(audioSource, i)
+      if (wanted && !input.media.hasAudio) {
+        log.info("Segment has no audio stream, using silence", { segment: i + 1 })
+      }
+
+      filterParts.push(buildAudioSegmentFilter(
+        i,
+        wanted && input.media.hasAudio,
+        getActiveTrim(input.segment),
+        durations[i],
+        `a${i}`
+      ))
+    })
+
+    let audioLabel = "a0"
+    for (let i = 1; i < inputs.length; i++) {
+      const join = joins[i - 1]
+      const outLabel = i === inputs.length - 1 ? voiceLabel : `ax${i}`
+
+      if (join) {
+        // The video so far is cut at offset + overlap, so the audio must end
+        // at the same point for acrossfade to line up with the xfade
+        filterParts.push(`[${audioLabel}]atrim=duration=${join.offset + join.duration}[${audioLabel}c]`)
+        filterParts.push(`[${audioLabel}c][a${i}]acrossfade=d=${join.duration}[${outLabel}]`)
+      } else {
+        filterParts.push(`[${audioLabel}][a${i}]concat=n=2:v=0:a=1[${outLabel}]`)
+      }
+
+      audioLabel = outLabel
+    }
+
+    if (inputs.length === 1) {
+      filterParts.push(`[a0]anull[${voiceLabel}]`)
+    }
+  }
+
+  if (music) {
+    const voice = audioSource !== "none" ? voiceLabel : null
+    filterParts.push(...buildMusicFilters(musicIndex, music.music, timelineDuration, voice, "outa"))
+  }
+
+  args.push("-filter_complex", filterParts.join(";"))
+  args.push("-map", "[outv]")
+
+  if (audioSource !== "none" || music) {
+    args.push("-map", "[outa]")
+    args.push("-c:a", "aac", "-b:a", "128k", "-ar", "48000")
+  } else {
+    // No audio output
+    args.push("-an")
+  }
+
+  // Output settings optimized for FAST processing and small file size
+  // Platforms recompress uploads anyway, so we prioritize speed over quality
+  args.push(
+    "-c:v", "libx264",
+    "-preset", "veryfast",    // Fast encoding (ultrafast/superfast/veryfast/faster/fast/medium)
+    "-crf", String(format.crf), // Per-preset quality (18-28 range for social media)
+    "-profile:v", "main",     // Good compatibility with mobile devices
+    "-level", fps > 30 ? "4.2" : "4.0", // 4.0 tops out at 1080p30
+    "-pix_fmt", "yuv420p",
+    "-movflags", "+faststart"
+  )
+
+  // Cap the bitrate for platforms that reject high-bitrate uploads
+  if (format.maxBitrate) {
+    args.push("-maxrate", `${format.maxBitrate}k`, "-bufsize", `${format.maxBitrate * 2}k`)
+  }
+
+  args.push(outputPath)
+
+  return { args, duration: timelineDuration, hookDuration }
+}
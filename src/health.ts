@@ -0,0 +1,107 @@
+import { spawn } from "child_process"
+import { randomUUID } from "crypto"
+import { unlink, writeFile } from "fs/promises"
+import { createServer } from "http"
+import type { Server } from "http"
+import path from "path"
+import { log } from "./logger"
+import { renderMetrics } from "./metrics"
+
+// Give up on a readiness check that hangs (e.g. an unreachable database)
+const READY_CHECK_TIMEOUT_MS = 5000
+
+export interface HealthChecks {
+  // Why the worker should be restarted, or null while it's healthy
+  liveness(): string | null
+  // Named readiness checks; each rejects when its dependency is unavailable
+  readiness: Record<string, () => Promise<void>>
+}
+
+// Resolves once `command -version` runs, i.e. the binary is on PATH and starts
+export function checkBinary(command: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const child = spawn(command, ["-version"], { stdio: "ignore" })
+    child.on("error", (err) => reject(new Error(`${command} is not available: ${err.message}`)))
+    child.on("close", (code) => {
+      if (code === 0) {
+        resolve()
+      } else {
+        reject(new Error(`${command} -version exited with code ${code}`))
+      }
+    })
+  })
+}
+
+// Write and remove a small file, which also catches a full disk
+export async function checkWritableDir(directory: string): Promise<void> {
+  const probePath = path.join(directory, `.readyz-${randomUUID()}`)
+  await writeFile(probePath, "ok")
+  await unlink(probePath)
+}
+
+function withTimeout(check: () => Promise<void>, ms: number): Promise<void> {
+  let timer: NodeJS.Timeout | undefined
+  return Promise.race([
+    check(),
+    new Promise<void>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`timed out after ${ms}ms`)), ms)
+    }),
+  ]).finally(() => clearTimeout(timer))
+}
+
+// Run every readiness check, reporting "ok" or the failure for each
+async function runReadinessChecks(checks: HealthChecks["readiness"]): Promise<{ ready: boolean; results: Record<string, string> }> {
+  const entries = await Promise.all(
+    Object.entries(checks).map(async ([name, check]) => {
+      try {
+        await withTimeout(check, READY_CHECK_TIMEOUT_MS)
+        return [name, "ok"] as const
+      } catch (err) {
+        return [name, err instanceof Error ? err.message : String(err)] as const
+      }
+    })
+  )
+  return {
+    ready: entries.every(([, result]) => result === "ok"),
+    results: Object.fromEntries(entries),
+  }
+}
+
+// GET /healthz (liveness), /readyz (dependencies) and /metrics (Prometheus)
+export function startHealthServer(port: number, checks: HealthChecks): Server {
+  const server = createServer(async (req, res) => {
+    const sendJson = (status: number, body: unknown) => {
+      res.writeHead(status, { "content-type": "application/json" })
+      res.end(JSON.stringify(body))
+    }
+
+    if (req.method !== "GET") {
+      sendJson(405, { error: "Method not allowed" })
+      return
+    }
+
+    try {
+      const pathname = new URL(req.url || "/", "http://localhost").pathname
+      if (pathname === "/healthz") {
+        const problem = checks.liveness()
+        sendJson(problem ? 503 : 200, problem ? { status: "unhealthy", error: problem } : { status: "ok" })
+      } else if (pathname === "/readyz") {
+        const { ready, results } = await runReadinessChecks(checks.readiness)
+        sendJson(ready ? 200 : 503, { status: ready ? "ok" : "unavailable", checks: results })
+      } else if (pathname === "/metrics") {
+        res.writeHead(200, { "content-type": "text/plain; version=0.0.4" })
+        res.end(await renderMetrics())
+      } else {
+        sendJson(404, { error: "Not found" })
+      }
+    } catch (err) {
+      log.error("Health server error", { error: err })
+      sendJson(500, { error: "Internal error" })
+    }
+  })
+
+  server.listen(port, () => {
+    log.info("Health server listening", { port })
+  })
+  return server
+}
@@ -1,136 +1,382 @@
 import { createClient } from "@supabase/supabase-js"
-import { processJob } from "./processor"
-import type { VideoJob } from "./types"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { hostname } from "os"
+import { checkBinary, checkWritableDir, startHealthServer } from "./health"
+import { createLocalJobQueue, createLocalStorage } from "./local"
+import { log, parseLogFormat, runWithJobContext, setLogFormat, setLogWorkerId } from "./logger"
+import { jobsCancelled, jobsClaimed, jobsFailed, jobsSucceeded, registerGauge } from "./metrics"
+import { processJob, cleanupTmpDir, ensureTmpDir, TMP_DIR } from "./processor"
+import type { JobQueue, RetryPolicy } from "./queue"
+import type { QuotaLimits } from "./scheduler"
+import type { OutputStorage } from "./storage"
+import { createSupabaseJobQueue, createSupabaseStorage } from "./supabase"
+import { createWebhookNotifier } from "./webhooks"
+import type { ProcessResult, VideoJob } from "./types"
+import { parseWakeupMode, subscribeToJobWakeups } from "./wakeups"
 
 // Configuration
 const SUPABASE_URL = process.env.SUPABASE_URL
 const SUPABASE_SERVICE_ROLE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY
-const POLL_INTERVAL_MS = parseInt(process.env.POLL_INTERVAL_MS || "5000", 10)
+// "supabase" (default) or "local" for tests and offline runs
+const QUEUE_BACKEND = process.env.QUEUE_BACKEND || "supabase"
+const STORAGE_BACKEND = process.env.STORAGE_BACKEND || "supabase"
+const LOCAL_QUEUE_FILE = process.env.LOCAL_QUEUE_FILE || "./jobs.json"
+const LOCAL_STORAGE_DIR = process.env.LOCAL_STORAGE_DIR || "./output"
+const WAKEUP_MODE = parseWakeupMode(process.env.WAKEUP_MODE)
+// In realtime mode polling is only a fallback sweep, so it can be slow
+const POLL_INTERVAL_MS = parseInt(process.env.POLL_INTERVAL_MS || (WAKEUP_MODE === "realtime" ? "60000" : "5000"), 10)
+const MAX_CONCURRENT_JOBS = Math.max(1, parseInt(process.env.MAX_CONCURRENT_JOBS || "1", 10) || 1)
+const WORKER_ID = process.env.WORKER_ID || `${hostname()}-${process.pid}`
+const LOG_FORMAT = parseLogFormat(process.env.LOG_FORMAT)
+const RETRY_POLICY: RetryPolicy = {
+  maxAttempts: parseInt(process.env.MAX_ATTEMPTS || "3", 10),
+  baseDelayMs: parseInt(process.env.RETRY_BASE_DELAY_MS || "30000", 10),
+  maxDelayMs: parseInt(process.env.RETRY_MAX_DELAY_MS || "900000", 10),
+}
+// Per-user defaults, overridable in user_settings. 0 means unlimited.
+const QUOTA: QuotaLimits = {
+  maxConcurrentJobs: parseInt(process.env.MAX_JOBS_PER_USER || "0", 10),
+  dailyRenderMinutes: parseFloat(process.env.DAILY_RENDER_MINUTES_PER_USER || "0"),
+}
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.HEARTBEAT_INTERVAL_MS || "15000", 10)
+const CANCEL_CHECK_INTERVAL_MS = parseInt(process.env.CANCEL_CHECK_INTERVAL_MS || "3000", 10)
+const STALE_JOB_TIMEOUT_MS = parseInt(process.env.STALE_JOB_TIMEOUT_MS || "90000", 10)
+const REAPER_INTERVAL_MS = parseInt(process.env.REAPER_INTERVAL_MS || "60000", 10)
+const SHUTDOWN_TIMEOUT_MS = parseInt(process.env.SHUTDOWN_TIMEOUT_MS || "25000", 10)
+const HEALTH_PORT = parseInt(process.env.HEALTH_PORT || process.env.PORT || "8080", 10)
+// /healthz fails once no poll has finished for this long, so a hung poll
+// loop gets the container restarted
+const POLL_STALL_TIMEOUT_MS = parseInt(process.env.POLL_STALL_TIMEOUT_MS || String(Math.max(3 * POLL_INTERVAL_MS, 60000)), 10)
+
+setLogFormat(LOG_FORMAT)
+setLogWorkerId(WORKER_ID)
+
+for (const [name, value] of [["QUEUE_BACKEND", QUEUE_BACKEND], ["STORAGE_BACKEND", STORAGE_BACKEND]]) {
+  if (value !== "supabase" && value !== "local") {
+    log.error(`Invalid ${name} "${value}", expected "supabase" or "local"`)
+    process.exit(1)
+  }
+}
 
-if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
-  console.error("❌ Missing required environment variables:")
-  console.error("   - SUPABASE_URL")
-  console.error("   - SUPABASE_SERVICE_ROLE_KEY")
+if (WAKEUP_MODE === "realtime" && QUEUE_BACKEND !== "supabase") {
+  log.error("WAKEUP_MODE=realtime needs QUEUE_BACKEND=supabase")
   process.exit(1)
 }
 
-// Initialize Supabase client with service role key (bypasses RLS)
-const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
-  auth: {
-    autoRefreshToken: false,
-    persistSession: false,
-  },
+// Initialize Supabase client with service role key (bypasses RLS), unless
+// everything runs locally
+let supabase: SupabaseClient | null = null
+if (QUEUE_BACKEND === "supabase" || STORAGE_BACKEND === "supabase") {
+  if (!SUPABASE_URL || !SUPABASE_SERVICE_ROLE_KEY) {
+    log.error("Missing required environment variables", { required: ["SUPABASE_URL", "SUPABASE_SERVICE_ROLE_KEY"] })
+    process.exit(1)
+  }
+
+  supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_ROLE_KEY, {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false,
+    },
+  })
+}
+
+const queue: JobQueue = supabase && QUEUE_BACKEND === "supabase"
+  ? createSupabaseJobQueue(supabase)
+  : createLocalJobQueue(LOCAL_QUEUE_FILE)
+const storage: OutputStorage = supabase && STORAGE_BACKEND === "supabase"
+  ? createSupabaseStorage(supabase)
+  : createLocalStorage(LOCAL_STORAGE_DIR)
+const webhooks = createWebhookNotifier(queue)
+
+log.info("Hookly Video Worker starting", {
+  queue: QUEUE_BACKEND === "local" ? LOCAL_QUEUE_FILE : "supabase",
+  storage: STORAGE_BACKEND === "local" ? LOCAL_STORAGE_DIR : "supabase",
+  wakeup_mode: WAKEUP_MODE,
+  poll_interval_ms: POLL_INTERVAL_MS,
+  max_concurrent_jobs: MAX_CONCURRENT_JOBS,
+  max_attempts: RETRY_POLICY.maxAttempts,
+  quota: QUOTA,
 })
 
-console.log("🚀 Hookly Video Worker starting...")
-console.log(`📊 Poll interval: ${POLL_INTERVAL_MS}ms`)
+interface InFlightJob {
+  job: VideoJob
+  controller: AbortController
+  // Resolves once runJob returns: true if it recorded an outcome on the row
+  done: Promise<boolean>
+}
+
+// Why a job's controller was aborted
+const ABORT_SHUTDOWN = "shutdown"
+const ABORT_CANCELLED = "cancelled"
+
+let isPolling = false
+// A wakeup arrived mid-poll; poll again once it finishes so the new job isn't
+// left for the next sweep
+let pollAgain = false
+let isShuttingDown = false
+let lastPollAt = Date.now()
+const inFlight = new Map<string, InFlightJob>()
+
+// Render a claimed job and record the outcome on its row. Returns false when
+// it was stopped for shutdown without recording anything, so the caller can
+// release the claim.
+async function runJob(job: VideoJob, signal: AbortSignal): Promise<boolean> {
+  // Cancelled before we even started
+  if (job.cancel_requested) {
+    await queue.cancelJob(job)
+    jobsCancelled.inc()
+    webhooks.notify(job, "cancelled", null)
+    log.info("Job was cancelled before processing started")
+    return true
+  }
+
+  let result: ProcessResult
+  try {
+    log.info("Processing job", { attempt: job.attempts, max_attempts: RETRY_POLICY.maxAttempts })
+
+    // Process the video
+    result = await processJob(job, queue, storage, signal)
+  } catch (err) {
+    const errorMessage = err instanceof Error ? err.message : "Unknown error"
+    result = { success: false, error: errorMessage, errorClass: "retryable", attempts: job.attempts }
+  }
+
+  // Cancelled by the user: the render was killed, and processJob already
+  // removed its temp files and anything it had uploaded or recorded. A cancel
+  // that lands after the last upload is too late; the job completes below.
+  if (!result.success && signal.aborted && signal.reason === ABORT_CANCELLED) {
+    await queue.cancelJob(job)
+    jobsCancelled.inc()
+    webhooks.notify(job, "cancelled", result)
+    log.info("Job cancelled")
+    return true
+  }
+
+  // Aborted during shutdown - shutdown() releases the claim
+  if (!result.success && signal.aborted) {
+    return false
+  }
+
+  if (result.success && result.outputs && result.outputs.length > 0) {
+    await queue.completeJob(job, result.outputs)
+    jobsSucceeded.inc()
+    webhooks.notify(job, "done", result)
+
+    log.info("Job completed", { outputs: result.outputs })
+    return true
+  }
 
-let isProcessing = false
+  const status = await queue.failJob(job, result, RETRY_POLICY)
+  jobsFailed.inc(1, { error_class: result.errorClass ?? "retryable", stage: result.errorStage ?? "unknown" })
+  // Only reported once the job won't be retried
+  webhooks.notify(job, status, result)
+
+  const failure = { status, error_class: result.errorClass, stage: result.errorStage, attempt: job.attempts, error: result.error }
+  if (status === "pending") {
+    log.warn("Job failed, will retry", failure)
+  } else if (status === "failed") {
+    log.error("Job failed after its last attempt", failure)
+  } else {
+    log.error("Job failed", failure)
+  }
+  return true
+}
 
 async function pollForJobs(): Promise<void> {
-  if (isProcessing) {
+  if (isShuttingDown) {
     return
   }
+  if (isPolling) {
+    pollAgain = true
+    return
+  }
+
+  isPolling = true
 
   try {
-    // Fetch oldest pending job
-    const { data: jobs, error } = await supabase
-      .from("video_jobs")
-      .select("*")
-      .eq("status", "pending")
-      .order("created_at", { ascending: true })
-      .limit(1)
-
-    if (error) {
-      console.error("❌ Error fetching jobs:", error.message)
-      return
-    }
+    // Keep claiming until every slot is busy or the queue is empty
+    while (inFlight.size < MAX_CONCURRENT_JOBS && !isShuttingDown) {
+      const job = await queue.claimNextJob(WORKER_ID, QUOTA)
 
-    if (!jobs || jobs.length === 0) {
-      return
-    }
+      if (!job) {
+        break
+      }
+      jobsClaimed.inc()
 
-    const job = jobs[0] as VideoJob
-    console.log(`\n📦 Found job: ${job.id}`)
+      const controller = new AbortController()
+      const done = runWithJobContext(job.id, () => runJob(job, controller.signal))
+        .catch((err) => {
+          log.error("Unexpected error while finishing job", { job_id: job.id, error: err })
+          return false
+        })
+        .finally(() => {
+          inFlight.delete(job.id)
+          // A slot just freed up, look for more work right away
+          pollForJobs()
+        })
 
-    isProcessing = true
+      inFlight.set(job.id, { job, controller, done })
+      log.info("Claimed job", { job_id: job.id, user_id: job.user_id, priority: job.priority, slots_in_use: inFlight.size, max_concurrent_jobs: MAX_CONCURRENT_JOBS })
+    }
+  } catch (err) {
+    log.error("Error claiming jobs", { error: err })
+  } finally {
+    isPolling = false
+    lastPollAt = Date.now()
+    if (pollAgain) {
+      pollAgain = false
+      pollForJobs()
+    }
+  }
+}
 
-    try {
-      // Update status to processing
-      await supabase
-        .from("video_jobs")
-        .update({ status: "processing", updated_at: new Date().toISOString() })
-        .eq("id", job.id)
-
-      console.log(`⚙️  Processing job ${job.id}...`)
-
-      // Process the video
-      const result = await processJob(job, supabase)
-
-      if (result.success && result.outputUrl) {
-        // Update job as done
-        await supabase
-          .from("video_jobs")
-          .update({
-            status: "done",
-            output_url: result.outputUrl,
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", job.id)
-
-        console.log(`✅ Job ${job.id} completed successfully`)
-        console.log(`   Output: ${result.outputUrl}`)
-      } else {
-        // Update job as error
-        await supabase
-          .from("video_jobs")
-          .update({
-            status: "error",
-            error_message: result.error || "Unknown error",
-            updated_at: new Date().toISOString(),
-          })
-          .eq("id", job.id)
-
-        console.error(`❌ Job ${job.id} failed: ${result.error}`)
+// Keep our claims alive so the reaper doesn't hand them to another worker
+async function sendHeartbeat(): Promise<void> {
+  try {
+    await queue.heartbeatJobs(WORKER_ID, [...inFlight.keys()])
+  } catch (err) {
+    log.error("Heartbeat failed", { error: err })
+  }
+}
+
+// Stop in-flight jobs the user has cancelled. Aborting kills a running
+// FFmpeg and makes processJob bail out before its next stage.
+async function checkCancellations(): Promise<void> {
+  try {
+    const cancelled = await queue.fetchCancelRequests(WORKER_ID, [...inFlight.keys()])
+    for (const jobId of cancelled) {
+      const entry = inFlight.get(jobId)
+      if (entry && !entry.controller.signal.aborted) {
+        log.info("Cancel requested, stopping job", { job_id: jobId })
+        entry.controller.abort(ABORT_CANCELLED)
       }
-    } catch (err) {
-      const errorMessage = err instanceof Error ? err.message : "Unknown error"
-      
-      // Update job as error
-      await supabase
-        .from("video_jobs")
-        .update({
-          status: "error",
-          error_message: errorMessage,
-          updated_at: new Date().toISOString(),
-        })
-        .eq("id", job.id)
+    }
+  } catch (err) {
+    log.error("Cancellation check failed", { error: err })
+  }
+}
 
-      console.error(`❌ Job ${job.id} failed with exception: ${errorMessage}`)
-    } finally {
-      isProcessing = false
+// Recover jobs left in "processing" by workers that died mid-render
+async function reapJobs(): Promise<void> {
+  try {
+    const reaped = await queue.reapStaleJobs(STALE_JOB_TIMEOUT_MS, RETRY_POLICY)
+    if (reaped > 0) {
+      log.info("Recovered stale jobs", { count: reaped })
     }
   } catch (err) {
-    console.error("❌ Unexpected error in poll loop:", err)
-    isProcessing = false
+    log.error("Reaper failed", { error: err })
   }
 }
 
+registerGauge("hookly_queue_depth", "Pending and deferred jobs in the queue", () => queue.countPendingJobs())
+registerGauge("hookly_jobs_in_flight", "Jobs this worker is rendering right now", () => inFlight.size)
+
+const healthServer = startHealthServer(HEALTH_PORT, {
+  liveness() {
+    const sincePoll = Date.now() - lastPollAt
+    if (!isShuttingDown && sincePoll > POLL_STALL_TIMEOUT_MS) {
+      return `No poll has finished in ${Math.round(sincePoll / 1000)}s`
+    }
+    return null
+  },
+  readiness: {
+    db: () => queue.countPendingJobs().then(() => undefined),
+    ffmpeg: () => checkBinary("ffmpeg"),
+    ffprobe: () => checkBinary("ffprobe"),
+    tmp_dir: async () => {
+      await ensureTmpDir()
+      await checkWritableDir(TMP_DIR)
+    },
+  },
+})
+
 // Start polling
-console.log("👀 Watching for pending jobs...")
+log.info("Watching for pending jobs")
+
+const pollTimer = setInterval(pollForJobs, POLL_INTERVAL_MS)
+const heartbeatTimer = setInterval(sendHeartbeat, HEARTBEAT_INTERVAL_MS)
+const cancelTimer = setInterval(checkCancellations, CANCEL_CHECK_INTERVAL_MS)
+const reaperTimer = setInterval(reapJobs, REAPER_INTERVAL_MS)
 
-setInterval(pollForJobs, POLL_INTERVAL_MS)
+const unsubscribeWakeups = supabase && WAKEUP_MODE === "realtime"
+  ? subscribeToJobWakeups(supabase, pollForJobs)
+  : null
 
 // Initial poll
-pollForJobs()
+reapJobs().then(pollForJobs)
 
-// Handle graceful shutdown
-process.on("SIGTERM", () => {
-  console.log("\n🛑 Received SIGTERM, shutting down...")
+// Wait for `promise`, but no longer than `ms`
+async function waitAtMost(promise: Promise<unknown>, ms: number): Promise<void> {
+  let deadline: NodeJS.Timeout | undefined
+  await Promise.race([
+    promise,
+    new Promise<void>((resolve) => {
+      deadline = setTimeout(resolve, Math.max(0, ms))
+    }),
+  ])
+  clearTimeout(deadline)
+}
+
+// Stop claiming new work, give in-flight renders until the deadline to finish,
+// then release whatever is still running back to the queue
+async function shutdown(signal: string): Promise<void> {
+  if (isShuttingDown) {
+    return
+  }
+
+  isShuttingDown = true
+  const shutdownDeadline = Date.now() + SHUTDOWN_TIMEOUT_MS
+  log.info("Shutting down", { signal })
+
+  clearInterval(pollTimer)
+  clearInterval(reaperTimer)
+  await unsubscribeWakeups?.().catch(() => {
+    // Ignore errors, we're exiting anyway
+  })
+
+  if (inFlight.size > 0) {
+    log.info("Waiting for in-flight jobs to finish", { jobs: inFlight.size, timeout_ms: SHUTDOWN_TIMEOUT_MS })
+
+    await waitAtMost(Promise.all([...inFlight.values()].map((entry) => entry.done)), SHUTDOWN_TIMEOUT_MS)
+  }
+
+  // Stop whatever is still running and wait for it to wind down. A job that
+  // finishes in the meantime keeps its claim until it's recorded as done;
+  // only the ones that stopped without an outcome are released.
+  const unfinished = [...inFlight.values()]
+  for (const entry of unfinished) {
+    entry.controller.abort(ABORT_SHUTDOWN)
+  }
+  const recorded = await Promise.all(unfinished.map((entry) => entry.done))
+  for (const [i, entry] of unfinished.entries()) {
+    if (recorded[i]) {
+      continue
+    }
+    try {
+      await queue.releaseJob(entry.job)
+      log.info("Job released back to the queue", { job_id: entry.job.id })
+    } catch (err) {
+      log.error("Failed to release job", { job_id: entry.job.id, error: err })
+    }
+  }
+
+  clearInterval(heartbeatTimer)
+  clearInterval(cancelTimer)
+  healthServer.close()
+
+  await cleanupTmpDir()
+
+  // Webhook retries get whatever is left of the shutdown budget
+  await waitAtMost(webhooks.drain(), shutdownDeadline - Date.now())
+
+  log.info("Worker stopped")
   process.exit(0)
+}
+
+process.on("SIGTERM", () => {
+  shutdown("SIGTERM")
 })
 
 process.on("SIGINT", () => {
-  console.log("\n🛑 Received SIGINT, shutting down...")
-  process.exit(0)
+  shutdown("SIGINT")
 })
@@ -0,0 +1,333 @@
+import { randomUUID } from "crypto"
+import { existsSync } from "fs"
+import { appendFile, copyFile, mkdir, readFile, rename, rm, writeFile } from "fs/promises"
+import path from "path"
+import { pathToFileURL } from "url"
+import { log } from "./logger"
+import { getFailureOutcome, getRenderSeconds, getStaleOutcome } from "./queue"
+import type { JobQueue } from "./queue"
+import { CLAIMABLE_STATUSES, getDeferralMessage, getQueueHeads, getUserLimits, planClaims, startOfNextUtcDay, startOfUtcDay, summarizeUsage } from "./scheduler"
+import type { OutputStorage } from "./storage"
+import type { UserSettings, VideoJob } from "./types"
+
+// Layout of the local queue file. Jobs only need the fields a job row would
+// have set on insert (id, user_id, intro_url/main_url or config.segments,
+// hook_text, config); the rest is filled in on load.
+interface LocalQueueFile {
+  jobs: VideoJob[]
+  userSettings?: UserSettings[]
+}
+
+// A full job row from the fields set on insert
+export function normalizeJob(raw: Partial<VideoJob>): VideoJob {
+  const now = new Date().toISOString()
+  return {
+    id: randomUUID(),
+    user_id: "local",
+    intro_url: "",
+    main_url: "",
+    hook_text: null,
+    status: "pending",
+    output_url: null,
+    output_urls: null,
+    error_message: null,
+    error_details: null,
+    worker_id: null,
+    claimed_at: null,
+    heartbeat_at: null,
+    progress: null,
+    stage: null,
+    attempts: 0,
+    next_attempt_at: null,
+    cancel_requested: false,
+    priority: 0,
+    render_seconds: null,
+    created_at: now,
+    updated_at: now,
+    config: null,
+    ...raw,
+  }
+}
+
+async function readQueueFile(filePath: string): Promise<LocalQueueFile> {
+  if (!existsSync(filePath)) {
+    return { jobs: [] }
+  }
+  const data = JSON.parse(await readFile(filePath, "utf8")) as Partial<LocalQueueFile>
+  return {
+    ...data,
+    jobs: (data.jobs || []).map(normalizeJob),
+  }
+}
+
+// Write to a temp file and rename so a crash never leaves half a queue behind
+async function writeQueueFile(filePath: string, data: LocalQueueFile): Promise<void> {
+  const tmpPath = `${filePath}.tmp`
+  await writeFile(tmpPath, JSON.stringify(data, null, 2))
+  await rename(tmpPath, filePath)
+}
+
+// A queue kept in one JSON file, for tests and offline runs. Only one worker
+// process may use a file at a time: operations are serialized within the
+// process, but nothing locks the file against other processes.
+export function createLocalJobQueue(filePath: string): JobQueue {
+  let lock: Promise<unknown> = Promise.resolve()
+  const logPathPrefix = filePath.replace(/\.json$/, "")
+
+  // Run `fn` against the file contents, saving any changes it makes.
+  // Calls are chained so read-modify-write cycles never interleave.
+  function transact<T>(fn: (data: LocalQueueFile) => T, save = true): Promise<T> {
+    const run = lock.then(async () => {
+      const data = await readQueueFile(filePath)
+      const result = fn(data)
+      if (save) {
+        await writeQueueFile(filePath, data)
+      }
+      return result
+    })
+    lock = run.catch(() => undefined)
+    return run
+  }
+
+  // The job while `job.worker_id` still holds its claim
+  function findClaimed(data: LocalQueueFile, job: VideoJob): VideoJob | undefined {
+    return data.jobs.find((row) => row.id === job.id && row.worker_id === job.worker_id)
+  }
+
+  return {
+    claimNextJob(workerId, quota) {
+      return transact((data) => {
+        const now = new Date()
+        const settings = new Map((data.userSettings || []).map((row) => [row.user_id, row]))
+        const { order, overQuota } = planClaims(
+          getQueueHeads(data.jobs, now),
+          summarizeUsage(data.jobs, startOfUtcDay(now)),
+          (userId) => getUserLimits(settings.get(userId), quota)
+        )
+
+        // Park everything these users have queued until the quota resets.
+        // Jobs backing off from a failed attempt keep their status and error.
+        const until = startOfNextUtcDay(now)
+        for (const { userId, limits } of overQuota) {
+          let deferred = 0
+          for (const row of data.jobs) {
+            if (row.user_id === userId && CLAIMABLE_STATUSES.includes(row.status) && row.attempts === 0
+              && (!row.next_attempt_at || row.next_attempt_at < until.toISOString())) {
+              Object.assign(row, {
+                status: "deferred",
+                next_attempt_at: until.toISOString(),
+                error_message: getDeferralMessage(limits, until),
+                updated_at: now.toISOString(),
+              })
+              deferred++
+            }
+          }
+          if (deferred > 0) {
+            log.info("Deferred jobs over the daily render quota", { user_id: userId, count: deferred })
+          }
+        }
+
+        const job = order.length > 0 ? data.jobs.find((row) => row.id === order[0].id) : undefined
+        if (!job) {
+          return null
+        }
+        const claimedAt = now.toISOString()
+        Object.assign(job, {
+          status: "processing",
+          worker_id: workerId,
+          claimed_at: claimedAt,
+          heartbeat_at: claimedAt,
+          attempts: job.attempts + 1,
+          updated_at: claimedAt,
+        })
+        return { ...job }
+      })
+    },
+
+    completeJob(job, outputs) {
+      return transact((data) => {
+        const row = findClaimed(data, job)
+        if (row) {
+          Object.assign(row, {
+            status: "done",
+            output_url: outputs[0]?.url ?? null,
+            output_urls: outputs,
+            render_seconds: getRenderSeconds(outputs),
+            progress: 100,
+            error_message: null,
+            error_details: null,
+            next_attempt_at: null,
+            updated_at: new Date().toISOString(),
+          })
+        }
+      })
+    },
+
+    failJob(job, result, policy) {
+      return transact((data) => {
+        const now = new Date()
+        const { status, nextAttemptAt, errorMessage } = getFailureOutcome(job, result, policy, now)
+        const row = findClaimed(data, job)
+        if (row) {
+          Object.assign(row, {
+            status,
+            next_attempt_at: nextAttemptAt,
+            progress: null,
+            stage: null,
+            error_message: errorMessage,
+            error_details: result.fieldErrors ?? null,
+            updated_at: now.toISOString(),
+          })
+        }
+        return status
+      })
+    },
+
+    cancelJob(job) {
+      return transact((data) => {
+        const row = findClaimed(data, job)
+        if (row) {
+          Object.assign(row, {
+            status: "cancelled",
+            next_attempt_at: null,
+            progress: null,
+            stage: null,
+            updated_at: new Date().toISOString(),
+          })
+        }
+      })
+    },
+
+    releaseJob(job) {
+      return transact((data) => {
+        const row = findClaimed(data, job)
+        if (row && row.status === "processing") {
+          Object.assign(row, {
+            status: "pending",
+            worker_id: null,
+            claimed_at: null,
+            heartbeat_at: null,
+            progress: null,
+            stage: null,
+            attempts: Math.max(0, job.attempts - 1),
+            updated_at: new Date().toISOString(),
+          })
+        }
+      })
+    },
+
+    reserveRenderSeconds(job, seconds) {
+      return transact((data) => {
+        const row = findClaimed(data, job)
+        if (row) {
+          Object.assign(row, { render_seconds: seconds, updated_at: new Date().toISOString() })
+        }
+      })
+    },
+
+    updateProgress(job, fields) {
+      return transact((data) => {
+        const row = findClaimed(data, job)
+        if (row) {
+          Object.assign(row, fields, { updated_at: new Date().toISOString() })
+        }
+      })
+    },
+
+    heartbeatJobs(workerId, jobIds) {
+      if (jobIds.length === 0) {
+        return Promise.resolve()
+      }
+      return transact((data) => {
+        const now = new Date().toISOString()
+        for (const row of data.jobs) {
+          if (jobIds.includes(row.id) && row.worker_id === workerId && row.status === "processing") {
+            row.heartbeat_at = now
+          }
+        }
+      })
+    },
+
+    fetchCancelRequests(workerId, jobIds) {
+      return transact((data) => data.jobs
+        .filter((row) => jobIds.includes(row.id) && row.worker_id === workerId && row.cancel_requested)
+        .map((row) => row.id), false)
+    },
+
+    reapStaleJobs(staleAfterMs, policy) {
+      return transact((data) => {
+        const cutoff = new Date(Date.now() - staleAfterMs).toISOString()
+        let reaped = 0
+        for (const row of data.jobs) {
+          if (row.status !== "processing" || (row.heartbeat_at && row.heartbeat_at >= cutoff)) {
+            continue
+          }
+          Object.assign(row, {
+            status: getStaleOutcome(row, policy),
+            worker_id: null,
+            heartbeat_at: null,
+            progress: null,
+            stage: null,
+            error_message: `Worker ${row.worker_id} stopped responding`,
+            updated_at: new Date().toISOString(),
+          })
+          reaped++
+        }
+        return reaped
+      })
+    },
+
+    getUserSettings(userId) {
+      return transact((data) => (data.userSettings || []).find((settings) => settings.user_id === userId) ?? null, false)
+    },
+
+    countPendingJobs() {
+      return transact((data) => data.jobs.filter((row) => CLAIMABLE_STATUSES.includes(row.status)).length, false)
+    },
+
+    // Events and webhook deliveries go to JSON Lines files next to the queue
+    // file (jobs.events.jsonl, jobs.webhooks.jsonl for jobs.json) rather
+    // than into it, so the queue file stays small
+    async recordJobEvent(event) {
+      await appendFile(`${logPathPrefix}.events.jsonl`, `${JSON.stringify(event)}\n`)
+    },
+
+    async recordWebhookDelivery(delivery) {
+      await appendFile(`${logPathPrefix}.webhooks.jsonl`, `${JSON.stringify(delivery)}\n`)
+    },
+  }
+}
+
+// Outputs copied into a directory and served as file:// URLs. The library
+// rows that would go to the videos table are appended to videos.jsonl there.
+export function createLocalStorage(directory: string): OutputStorage {
+  return {
+    async upload(filePath, storagePath) {
+      const destination = path.resolve(directory, storagePath)
+      await mkdir(path.dirname(destination), { recursive: true })
+      await copyFile(filePath, destination)
+
+      const url = pathToFileURL(destination).href
+      log.info("Saved output", { url })
+      return url
+    },
+
+    async saveVideo(record) {
+      await mkdir(directory, { recursive: true })
+      const row = { ...record, created_at: new Date().toISOString() }
+      await appendFile(path.join(directory, "videos.jsonl"), `${JSON.stringify(row)}\n`)
+    },
+
+    async removeUploads(storagePaths) {
+      await Promise.all(storagePaths.map((storagePath) => rm(path.resolve(directory, storagePath), { force: true })))
+
+      const videosPath = path.join(directory, "videos.jsonl")
+      if (!existsSync(videosPath)) {
+        return
+      }
+      const lines = (await readFile(videosPath, "utf8")).split("\n").filter((line) => line.trim())
+      const kept = lines.filter((line) => !storagePaths.includes(JSON.parse(line).storage_path))
+      await writeFile(videosPath, kept.map((line) => `${line}\n`).join(""))
+    },
+  }
+}
@@ -0,0 +1,82 @@
+import { AsyncLocalStorage } from "async_hooks"
+
+// "json" writes one object per line for log aggregation, "pretty" writes
+// plain text for local runs and the CLI
+export type LogFormat = "json" | "pretty"
+export type LogLevel = "info" | "warn" | "error"
+export type LogFields = Record<string, unknown>
+
+let logFormat: LogFormat = "json"
+let workerId: string | null = null
+// Where info lines go; warnings and errors always go to stderr
+let infoStream: NodeJS.WritableStream = process.stdout
+
+// The job whose work is running, so every line logged on its behalf - down to
+// FFmpeg and download callbacks - carries its job_id
+const jobContext = new AsyncLocalStorage<string>()
+
+export function parseLogFormat(value: string | undefined): LogFormat {
+  if (!value || value === "json") {
+    return "json"
+  }
+  if (value === "pretty") {
+    return value
+  }
+  throw new Error(`Invalid LOG_FORMAT "${value}", expected "json" or "pretty"`)
+}
+
+export function setLogFormat(format: LogFormat): void {
+  logFormat = format
+}
+
+// Send info lines somewhere other than stdout, e.g. stderr when stdout
+// carries program output
+export function setLogStream(stream: NodeJS.WritableStream): void {
+  infoStream = stream
+}
+
+export function setLogWorkerId(id: string): void {
+  workerId = id
+}
+
+// Run `fn` with `jobId` attached to everything it logs
+export function runWithJobContext<T>(jobId: string, fn: () => T): T {
+  return jobContext.run(jobId, fn)
+}
+
+// Errors don't survive JSON.stringify, so log their message instead
+function toLogValue(value: unknown): unknown {
+  return value instanceof Error ? value.message : value
+}
+
+function write(level: LogLevel, msg: string, fields: LogFields = {}): void {
+  const jobId = jobContext.getStore() ?? null
+  const entries = Object.entries(fields)
+    .filter(([, value]) => value !== undefined)
+    .map(([key, value]) => [key, toLogValue(value)] as const)
+
+  let line: string
+  if (logFormat === "pretty") {
+    const prefix = jobId ? `[${jobId.slice(0, 8)}] ` : ""
+    const extras = entries.map(([key, value]) => `${key}=${typeof value === "string" ? value : JSON.stringify(value)}`)
+    line = [`${prefix}${msg}`, ...extras].join(" ")
+  } else {
+    line = JSON.stringify({
+      time: new Date().toISOString(),
+      level,
+      worker_id: workerId,
+      job_id: jobId,
+      msg,
+      ...Object.fromEntries(entries),
+    })
+  }
+
+  const stream = level === "info" ? infoStream : process.stderr
+  stream.write(`${line}\n`)
+}
+
+export const log = {
+  info: (msg: string, fields?: LogFields) => write("info", msg, fields),
+  warn: (msg: string, fields?: LogFields) => write("warn", msg, fields),
+  error: (msg: string, fields?: LogFields) => write("error", msg, fields),
+}
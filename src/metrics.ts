@@ -0,0 +1,129 @@
+import { log } from "./logger"
+
+// Minimal Prometheus registry: counters, histograms and gauges rendered in
+// the text exposition format for GET /metrics (see health.ts)
+
+type Labels = Record<string, string>
+
+interface Metric {
+  render(): Promise<string[]>
+}
+
+const registry: Metric[] = []
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n")
+}
+
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([key, value]) => `${key}="${escapeLabelValue(value)}"`)
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : ""
+}
+
+// Series are keyed by their sorted labels so {a,b} and {b,a} are the same one
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)))
+}
+
+export interface Counter {
+  inc(value?: number, labels?: Labels): void
+}
+
+export function createCounter(name: string, help: string): Counter {
+  const series = new Map<string, { labels: Labels; value: number }>()
+
+  registry.push({
+    async render() {
+      return [
+        `# HELP ${name} ${help}`,
+        `# TYPE ${name} counter`,
+        // Report 0 until the first increment so rate() has a starting point
+        ...(series.size === 0 ? [`${name} 0`] : []),
+        ...[...series.values()].map(({ labels, value }) => `${name}${formatLabels(labels)} ${value}`),
+      ]
+    },
+  })
+
+  return {
+    inc(value = 1, labels = {}) {
+      const key = seriesKey(labels)
+      const entry = series.get(key) ?? { labels, value: 0 }
+      entry.value += value
+      series.set(key, entry)
+    },
+  }
+}
+
+export interface Histogram {
+  observe(value: number, labels?: Labels): void
+}
+
+export function createHistogram(name: string, help: string, buckets: number[]): Histogram {
+  const series = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>()
+
+  registry.push({
+    async render() {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} histogram`]
+      for (const { labels, counts, sum, count } of series.values()) {
+        // Bucket counts are cumulative: each includes every smaller bucket
+        buckets.forEach((le, i) => {
+          lines.push(`${name}_bucket${formatLabels({ ...labels, le: String(le) })} ${counts[i]}`)
+        })
+        lines.push(`${name}_bucket${formatLabels({ ...labels, le: "+Inf" })} ${count}`)
+        lines.push(`${name}_sum${formatLabels(labels)} ${sum}`)
+        lines.push(`${name}_count${formatLabels(labels)} ${count}`)
+      }
+      return lines
+    },
+  })
+
+  return {
+    observe(value, labels = {}) {
+      const key = seriesKey(labels)
+      const entry = series.get(key) ?? { labels, counts: buckets.map(() => 0), sum: 0, count: 0 }
+      buckets.forEach((le, i) => {
+        if (value <= le) {
+          entry.counts[i]++
+        }
+      })
+      entry.sum += value
+      entry.count++
+      series.set(key, entry)
+    },
+  }
+}
+
+// A gauge read at scrape time. When `collect` fails the sample is left out
+// rather than failing the whole scrape.
+export function registerGauge(name: string, help: string, collect: () => number | Promise<number>): void {
+  registry.push({
+    async render() {
+      const lines = [`# HELP ${name} ${help}`, `# TYPE ${name} gauge`]
+      try {
+        lines.push(`${name} ${await collect()}`)
+      } catch (err) {
+        log.warn("Failed to collect metric", { metric: name, error: err })
+      }
+      return lines
+    },
+  })
+}
+
+export async function renderMetrics(): Promise<string> {
+  const sections = await Promise.all(registry.map((metric) => metric.render()))
+  return `${sections.flat().join("\n")}\n`
+}
+
+// Worker metrics, updated where the work happens
+export const jobsClaimed = createCounter("hookly_jobs_claimed_total", "Jobs claimed by this worker")
+export const jobsSucceeded = createCounter("hookly_jobs_succeeded_total", "Jobs rendered and uploaded")
+export const jobsFailed = createCounter("hookly_jobs_failed_total", "Failed job attempts, by error class and stage")
+export const jobsCancelled = createCounter("hookly_jobs_cancelled_total", "Jobs stopped because the user cancelled them")
+export const renderDuration = createHistogram(
+  "hookly_render_duration_seconds",
+  "Wall-clock time of each variant's FFmpeg render, by preset",
+  [5, 10, 20, 30, 45, 60, 90, 120, 180]
+)
+export const downloadBytes = createCounter("hookly_download_bytes_total", "Bytes of source media downloaded")
+export const uploadBytes = createCounter("hookly_upload_bytes_total", "Bytes of rendered output uploaded")
+export const webhookDeliveries = createCounter("hookly_webhook_deliveries_total", "Webhook notifications, by whether they were delivered")
@@ -0,0 +1,69 @@
+import type { MusicTrack } from "./types"
+
+const DEFAULT_VOLUME = 0.3
+
+// Social platforms normalize to about -14 LUFS, so mixes are delivered there
+const LOUDNESS_TARGET_LUFS = -14
+const TRUE_PEAK_DB = -1.5
+const LOUDNESS_RANGE = 11
+
+// Sidechain settings for ducking: music drops quickly when speech starts
+// and comes back gently after it stops
+const DUCK_THRESHOLD = 0.05
+const DUCK_RATIO = 8
+const DUCK_ATTACK_MS = 20
+const DUCK_RELEASE_MS = 400
+
+// Input options for the music track: seek to the start offset and loop
+// forever, so the filtergraph can cut it to exactly the video length
+export function buildMusicInputArgs(music: MusicTrack, path: string): string[] {
+  return ["-stream_loop", "-1", "-ss", String(music.startOffset ?? 0), "-i", path]
+}
+
+// Cut the music (input `inputIndex`) to `duration`, apply volume and fades,
+// duck it under `voiceLabel` if there is speech to duck under, mix and
+// normalize loudness into `outLabel`
+export function buildMusicFilters(
+  inputIndex: number,
+  music: MusicTrack,
+  duration: number,
+  voiceLabel: string | null,
+  outLabel: string
+): string[] {
+  const filters: string[] = []
+  const format = "aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo"
+
+  let musicFilter = `[${inputIndex}:a]atrim=duration=${duration},asetpts=PTS-STARTPTS,${format}`
+  musicFilter += `,volume=${music.volume ?? DEFAULT_VOLUME}`
+  if (music.fadeIn) {
+    musicFilter += `,afade=t=in:st=0:d=${Math.min(music.fadeIn, duration)}`
+  }
+  if (music.fadeOut) {
+    const fadeOut = Math.min(music.fadeOut, duration)
+    musicFilter += `,afade=t=out:st=${duration - fadeOut}:d=${fadeOut}`
+  }
+  filters.push(`${musicFilter}[music]`)
+
+  let mixLabel = "music"
+  if (voiceLabel) {
+    let musicLabel = "music"
+    if (music.duck !== false) {
+      filters.push(`[${voiceLabel}]asplit=2[voice][voicesc]`)
+      filters.push(
+        `[music][voicesc]sidechaincompress=threshold=${DUCK_THRESHOLD}:ratio=${DUCK_RATIO}` +
+        `:attack=${DUCK_ATTACK_MS}:release=${DUCK_RELEASE_MS}[ducked]`
+      )
+      voiceLabel = "voice"
+      musicLabel = "ducked"
+    }
+    // The voice track is already exactly `duration` long
+    filters.push(`[${voiceLabel}][${musicLabel}]amix=inputs=2:duration=first:normalize=0[mix]`)
+    mixLabel = "mix"
+  }
+
+  // loudnorm upsamples internally, so bring the mix back to 48 kHz
+  filters.push(
+    `[${mixLabel}]loudnorm=I=${LOUDNESS_TARGET_LUFS}:TP=${TRUE_PEAK_DB}:LRA=${LOUDNESS_RANGE},aresample=48000[${outLabel}]`
+  )
+  return filters
+}
@@ -0,0 +1,28 @@
+import { permanent } from "./errors"
+import type { JobConfig, OutputFormat, OutputPresetName } from "./types"
+
+export const OUTPUT_PRESETS: Record<OutputPresetName, OutputFormat> = {
+  // TikTok compresses uploads anyway, so favor speed and size
+  "tiktok": { name: "tiktok", width: 1080, height: 1920, fps: 30, crf: 26 },
+  "reels": { name: "reels", width: 1080, height: 1920, fps: 30, crf: 24, maxBitrate: 8000 },
+  "shorts": { name: "shorts", width: 1080, height: 1920, fps: 30, crf: 23 },
+  // Instagram feed posts are 4:5
+  "instagram-feed": { name: "instagram-feed", width: 1080, height: 1350, fps: 30, crf: 24, maxBitrate: 8000 },
+  "youtube": { name: "youtube", width: 1920, height: 1080, fps: 30, crf: 21, maxBitrate: 12000 },
+}
+
+// Resolve the variants a job should render, in order
+export function resolveOutputFormats(config: JobConfig | null | undefined): OutputFormat[] {
+  const outputs = config?.outputs && config.outputs.length > 0 ? config.outputs : ["tiktok" as const]
+
+  return outputs.map((output) => {
+    if (typeof output !== "string") {
+      return output
+    }
+    const preset = OUTPUT_PRESETS[output]
+    if (!preset) {
+      throw permanent("config", `Unknown output preset: ${output}`)
+    }
+    return preset
+  })
+}
@@ -0,0 +1,187 @@
+import { spawn } from "child_process"
+import { permanent, retryable } from "./errors"
+import type { MediaInfo } from "./types"
+
+// Input limits, checked right after probing
+const MAX_INPUT_DURATION_SEC = parseFloat(process.env.MAX_INPUT_DURATION_SEC || "600")
+export const MAX_INPUT_BYTES = parseInt(process.env.MAX_INPUT_BYTES || String(500 * 1024 * 1024), 10)
+const MAX_INPUT_DIMENSION = parseInt(process.env.MAX_INPUT_DIMENSION || "4096", 10)
+
+// A probe that takes longer than this is stuck on a broken input
+const PROBE_TIMEOUT_MS = parseInt(process.env.PROBE_TIMEOUT_MS || "30000", 10)
+
+// Containers ffprobe reports for still images rather than video
+const IMAGE_FORMAT_PATTERN = /(^|,)(image2|[a-z0-9]+_pipe)(,|$)/
+
+// Average and real frame rates further apart than this mean variable frame rate
+const VFR_TOLERANCE = 0.01
+
+interface FFprobeStream {
+  codec_type?: string
+  codec_name?: string
+  width?: number
+  height?: number
+  avg_frame_rate?: string
+  r_frame_rate?: string
+  duration?: string
+  tags?: { rotate?: string }
+  side_data_list?: { side_data_type?: string; rotation?: number }[]
+}
+
+interface FFprobeOutput {
+  streams?: FFprobeStream[]
+  format?: { format_name?: string; duration?: string; size?: string }
+}
+
+// Run ffprobe and return its JSON output. The process is killed when it
+// runs past PROBE_TIMEOUT_MS or `signal` is aborted.
+function runFFprobe(filePath: string, signal?: AbortSignal): Promise<FFprobeOutput> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(retryable("probe", "ffprobe was aborted"))
+      return
+    }
+
+    const ffprobe = spawn("ffprobe", [
+      "-v", "error",
+      "-print_format", "json",
+      "-show_format",
+      "-show_streams",
+      filePath
+    ])
+
+    let stdout = ""
+    let stderr = ""
+    let settled = false
+
+    // Settle once, whichever of exit, timeout or abort comes first
+    const finish = (fn: () => void) => {
+      if (settled) return
+      settled = true
+      clearTimeout(timeout)
+      signal?.removeEventListener("abort", onAbort)
+      fn()
+    }
+
+    const timeout = setTimeout(() => {
+      ffprobe.kill("SIGKILL")
+      finish(() => reject(retryable("probe", `ffprobe timed out after ${PROBE_TIMEOUT_MS / 1000} seconds`)))
+    }, PROBE_TIMEOUT_MS)
+
+    const onAbort = () => {
+      ffprobe.kill("SIGKILL")
+      finish(() => reject(retryable("probe", "ffprobe was aborted")))
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+
+    ffprobe.stdout.on("data", (data) => {
+      stdout += data.toString()
+    })
+    ffprobe.stderr.on("data", (data) => {
+      stderr += data.toString()
+    })
+
+    ffprobe.on("close", (code) => {
+      finish(() => {
+        if (code !== 0) {
+          // ffprobe ran but couldn't make sense of the file - a retry won't help
+          const reason = stderr.trim().split("\n").pop() || `ffprobe exited with code ${code}`
+          reject(permanent("probe", `Not a readable media file: ${reason}`))
+          return
+        }
+        try {
+          resolve(JSON.parse(stdout) as FFprobeOutput)
+        } catch {
+          reject(permanent("probe", "ffprobe returned unreadable output"))
+        }
+      })
+    })
+
+    ffprobe.on("error", (error) => {
+      // ffprobe could not be started at all - not the input's fault
+      finish(() => reject(retryable("probe", `ffprobe failed to start: ${error.message}`)))
+    })
+  })
+}
+
+// Parse an ffprobe rate like "30000/1001"
+function parseFrameRate(rate: string | undefined): number {
+  if (!rate) {
+    return 0
+  }
+  const [num, den] = rate.split("/").map(Number)
+  if (!den) {
+    return num || 0
+  }
+  return num / den
+}
+
+// Clockwise rotation needed to display the video upright: 0, 90, 180 or 270.
+// Older files carry a "rotate" tag (clockwise), newer ffprobe reports a
+// display matrix rotation (counterclockwise).
+function getRotation(stream: FFprobeStream): number {
+  let degrees = 0
+  const displayMatrix = stream.side_data_list?.find((data) => data.rotation !== undefined)
+  if (displayMatrix?.rotation !== undefined) {
+    degrees = -displayMatrix.rotation
+  } else if (stream.tags?.rotate) {
+    degrees = parseInt(stream.tags.rotate, 10) || 0
+  }
+  return ((Math.round(degrees / 90) * 90) % 360 + 360) % 360
+}
+
+// Probe an input file and reject anything we can't or shouldn't render:
+// non-video files, files without a video stream, and inputs over the limits.
+// `label` identifies the input in error messages. Aborting `signal` kills ffprobe.
+export async function probeMedia(filePath: string, label: string, signal?: AbortSignal): Promise<MediaInfo> {
+  const output = await runFFprobe(filePath, signal)
+  const streams = output.streams || []
+  const format = output.format || {}
+
+  const video = streams.find((stream) => stream.codec_type === "video")
+  if (!video) {
+    throw permanent("probe", `${label} has no video stream`)
+  }
+  if (format.format_name && IMAGE_FORMAT_PATTERN.test(format.format_name)) {
+    throw permanent("probe", `${label} is an image (${format.format_name}), not a video`)
+  }
+
+  const duration = parseFloat(format.duration || video.duration || "")
+  if (!Number.isFinite(duration) || duration <= 0) {
+    throw permanent("probe", `${label} has no readable duration`)
+  }
+  if (duration > MAX_INPUT_DURATION_SEC) {
+    throw permanent("probe", `${label} is ${Math.round(duration)}s long, the limit is ${MAX_INPUT_DURATION_SEC}s`)
+  }
+
+  const sizeBytes = parseInt(format.size || "0", 10)
+  if (sizeBytes > MAX_INPUT_BYTES) {
+    throw permanent("probe", `${label} is ${sizeBytes} bytes, the limit is ${MAX_INPUT_BYTES}`)
+  }
+
+  const width = video.width || 0
+  const height = video.height || 0
+  if (!width || !height) {
+    throw permanent("probe", `${label} has no video dimensions`)
+  }
+  if (width > MAX_INPUT_DIMENSION || height > MAX_INPUT_DIMENSION) {
+    throw permanent("probe", `${label} is ${width}x${height}, the limit is ${MAX_INPUT_DIMENSION}px per side`)
+  }
+
+  const avgFps = parseFrameRate(video.avg_frame_rate)
+  const realFps = parseFrameRate(video.r_frame_rate)
+  const fps = avgFps || realFps
+  const isVfr = avgFps > 0 && realFps > 0 && Math.abs(avgFps - realFps) / realFps > VFR_TOLERANCE
+
+  return {
+    duration,
+    width,
+    height,
+    rotation: getRotation(video),
+    fps,
+    codec: video.codec_name || "unknown",
+    hasAudio: streams.some((stream) => stream.codec_type === "audio"),
+    isVfr,
+    sizeBytes,
+  }
+}
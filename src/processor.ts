@@ -1,337 +1,163 @@
 import { spawn } from "child_process"
-import { writeFile, unlink, readFile, mkdir } from "fs/promises"
+import { unlink, readFile, mkdir, readdir, rm, stat } from "fs/promises"
 import { existsSync } from "fs"
 import path from "path"
-import type { SupabaseClient } from "@supabase/supabase-js"
-import type { VideoJob, ProcessResult, JobConfig, HookEffect, DemoEffect, Transition, FontSize } from "./types"
-
-const TMP_DIR = process.env.TMP_DIR || "/tmp/hookly"
+import { JobError, ValidationError } from "./errors"
+import { downloadFile } from "./download"
+import { createJobEventRecorder } from "./events"
+import type { JobEventRecorder } from "./events"
+import { log } from "./logger"
+import { renderDuration, uploadBytes } from "./metrics"
+import { createProgressReporter, parseProgressLine } from "./progress"
+import type { ProgressReporter } from "./progress"
+import type { JobQueue } from "./queue"
+import type { OutputStorage } from "./storage"
+import { buildFFmpegArgs } from "./ffmpeg"
+import type { ExtraInputs, MusicInput, SegmentInput, WatermarkInput } from "./ffmpeg"
+import { resolveOutputFormats } from "./presets"
+import { probeMedia } from "./probe"
+import { parseSubtitles } from "./subtitles"
+import { resolveTimeline } from "./timeline"
+import { POSTER_FILES, buildPosterArgs, buildPreviewArgs, resolvePosterTime } from "./thumbnails"
+import { validateJob, validateAgainstMedia, validateVariantsAgainstMedia } from "./validation"
+import { planSharedSegments, resolveVariants } from "./variants"
+import { resolveWatermark } from "./watermark"
+import type { VideoJob, ProcessResult, ErrorClass, RenderedOutput, OutputFormat } from "./types"
+
+export const TMP_DIR = process.env.TMP_DIR || "/tmp/hookly"
 
 // Ensure temp directory exists
-async function ensureTmpDir(): Promise<void> {
+export async function ensureTmpDir(): Promise<void> {
   if (!existsSync(TMP_DIR)) {
     await mkdir(TMP_DIR, { recursive: true })
   }
 }
 
-// Download file from URL
-async function downloadFile(url: string, outputPath: string): Promise<void> {
-  console.log(`   📥 Downloading: ${url.slice(0, 80)}...`)
-
-  const response = await fetch(url)
-  if (!response.ok) {
-    throw new Error(`Failed to download: ${response.status} ${response.statusText}`)
-  }
-
-  const buffer = Buffer.from(await response.arrayBuffer())
-  await writeFile(outputPath, buffer)
-
-  console.log(`   ✓ Downloaded: ${outputPath} (${buffer.length} bytes)`)
-}
-
-// Get intensity multiplier for effects
-function getIntensityMultiplier(intensity: "subtle" | "medium" | "strong"): number {
-  switch (intensity) {
-    case "subtle": return 0.5
-    case "medium": return 1.0
-    case "strong": return 1.5
-    default: return 1.0
-  }
-}
-
-// Get font size in pixels
-function getFontSizePixels(fontSize: FontSize): number {
-  switch (fontSize) {
-    case "small": return 48
-    case "medium": return 72
-    case "large": return 96
-    default: return 72
-  }
-}
-
-// Build effect filter (used for both hook and demo)
-// SIMPLIFIED: Only fast, non-CPU-intensive effects
-// All zoompan effects removed - they're too slow and break video duration
-function buildEffectFilter(effect: HookEffect | DemoEffect): string {
-  const intensity = getIntensityMultiplier(effect.intensity)
-
-  switch (effect.type) {
-    case "zoom-in":
-    case "punch-zoom":
-    case "vertical-pan":
-      // These used zoompan which is extremely CPU-intensive and breaks video duration
-      // For now, fall back to a simple center-crop effect which is fast
-      const fallbackZoom = 1 + (0.05 * intensity)
-      return `scale=${Math.round(1080 * fallbackZoom)}:${Math.round(1920 * fallbackZoom)},crop=1080:1920:(iw-1080)/2:(ih-1920)/2`
-
-    case "center-crop":
-      // Simple scale+crop - fast and reliable
-      const cropZoom = 1 + (0.1 * intensity)
-      return `scale=${Math.round(1080 * cropZoom)}:${Math.round(1920 * cropZoom)},crop=1080:1920:(iw-1080)/2:(ih-1920)/2`
-
-    default:
-      return ""
-  }
-}
-
-// Legacy alias for backwards compatibility
-function buildHookEffectFilter(effect: HookEffect): string {
-  return buildEffectFilter(effect)
-}
-
-// Build transition filter between hook and demo
-function buildTransitionFilter(transition: Transition, hookDuration: number): string {
-  const durationSec = transition.duration / 1000
-  const offset = Math.max(0, hookDuration - durationSec)
-
-  switch (transition.type) {
-    case "crossfade":
-      return `xfade=transition=fade:duration=${durationSec}:offset=${offset}`
-
-    case "push-up":
-      return `xfade=transition=slideup:duration=${durationSec}:offset=${offset}`
-
-    case "zoom-cut":
-      // Zoom cut - quick zoom at the cut point
-      return `xfade=transition=zoomin:duration=${Math.min(durationSec, 0.3)}:offset=${offset}`
-
-    case "cut":
-    default:
-      // Simple concat, no transition filter needed
-      return ""
-  }
+// Run FFmpeg command with timeout
+const FFMPEG_TIMEOUT_MS = 2 * 60 * 1000 // 2 minutes (should be plenty with simplified processing)
+// How much stderr to keep for failure reports
+const STDERR_TAIL_BYTES = 16 * 1024
+
+export interface FFmpegResult {
+  success: boolean
+  error?: string
+  errorClass?: ErrorClass
+  // Last STDERR_TAIL_BYTES of FFmpeg's stderr, on failure
+  stderrTail?: string
 }
 
-// Get video duration using ffprobe
-async function getVideoDuration(videoPath: string): Promise<number> {
-  return new Promise((resolve) => {
-    const ffprobe = spawn("ffprobe", [
-      "-v", "error",
-      "-select_streams", "v:0",
-      "-show_entries", "format=duration",
-      "-of", "default=noprint_wrappers=1:nokey=1",
-      videoPath
-    ])
-
-    let output = ""
-    ffprobe.stdout.on("data", (data) => {
-      output += data.toString()
-    })
-
-    ffprobe.on("close", () => {
-      const duration = parseFloat(output.trim())
-      resolve(isNaN(duration) ? 5 : duration) // Default to 5 seconds if probe fails
-    })
-
-    ffprobe.on("error", () => {
-      resolve(5) // Default to 5 seconds if ffprobe fails
-    })
-  })
+// stderr lines that mean the machine failed the render, not the input
+const TRANSIENT_FFMPEG_ERRORS = [
+  /No space left on device/i,
+  /Input\/output error/i,
+  /Cannot allocate memory/i,
+  /Resource temporarily unavailable/i,
+  /Connection (?:reset|refused|timed out)/i,
+  /received signal \d+/i,
+]
+
+// How to treat a non-zero FFmpeg exit. Disk, memory and I/O trouble, and
+// FFmpeg stopping on a signal, are worth retrying on a fresh attempt;
+// anything else means FFmpeg rejected the input or filtergraph.
+export function classifyFFmpegFailure(stderr: string): ErrorClass {
+  return TRANSIENT_FFMPEG_ERRORS.some((pattern) => pattern.test(stderr)) ? "retryable" : "permanent"
 }
 
-// Build FFmpeg command for video concatenation with all effects (no audio)
-async function buildFFmpegArgs(
-  introPath: string,
-  mainPath: string,
-  outputPath: string,
-  hookText: string | null,
-  config: JobConfig | null | undefined
-): Promise<string[]> {
-  const args: string[] = ["-y"] // Overwrite output
-
-  // Get intro duration for text overlay timing and transitions
-  const introDuration = await getVideoDuration(introPath)
-
-  // Calculate hook duration (after any trimming)
-  let hookStartTime = 0
-  let hookDuration: number
-  if (config?.hookTrim && !config.hookTrim.useFullVideo) {
-    hookStartTime = config.hookTrim.startTime
-    hookDuration = config.hookTrim.endTime - config.hookTrim.startTime
-  } else {
-    hookDuration = introDuration
-  }
-
-  // Calculate demo duration (after any trimming)
-  let demoStartTime = 0
-  if (config?.demoTrim && !config.demoTrim.useFullVideo) {
-    demoStartTime = config.demoTrim.startTime
-  }
-
-  // Add inputs
-  args.push("-i", introPath)
-  args.push("-i", mainPath)
-
-  // Build filter complex (video only)
-  let filterParts: string[] = []
-
-  // === INTRO VIDEO PROCESSING ===
-  let introFilter = "[0:v]"
-
-  // Apply trimming first if needed
-  if (config?.hookTrim && !config.hookTrim.useFullVideo) {
-    introFilter += `trim=start=${hookStartTime}:end=${config.hookTrim.endTime},setpts=PTS-STARTPTS,`
-  }
-
-  // Scale to TikTok format
-  introFilter += "scale=1080:1920:force_original_aspect_ratio=decrease,"
-  introFilter += "pad=1080:1920:(ow-iw)/2:(oh-ih)/2:black,"
-  introFilter += "setsar=1,fps=30"
-
-  // Apply hook effect if specified
-  if (config?.hookEffect && config.hookEffect.type !== "none") {
-    const effectFilter = buildHookEffectFilter(config.hookEffect)
-    if (effectFilter) {
-      introFilter += "," + effectFilter
-    }
-  }
-
-  // Add text overlay with styling from config
-  if (hookText) {
-    const escapedText = hookText
-      .replace(/\\/g, "\\\\")
-      .replace(/'/g, "'\\''")
-      .replace(/:/g, "\\:")
-      .replace(/\[/g, "\\[")
-      .replace(/\]/g, "\\]")
-
-    // Get text styling from config or use defaults
-    const fontSize = config?.textStyle?.fontSize ? getFontSizePixels(config.textStyle.fontSize) : 72
-    const fontColor = config?.textStyle?.color || "white"
-    const fontWeight = config?.textStyle?.fontWeight || "normal"
-
-    // Use custom position if provided, otherwise center
-    const textX = config?.textPosition ? `(w*${config.textPosition.x}/100)-(text_w/2)` : "(w-text_w)/2"
-    const textY = config?.textPosition ? `(h*${config.textPosition.y}/100)-(text_h/2)` : "(h-text_h)/2"
-
-    introFilter += `,drawtext=text='${escapedText}'`
-    introFilter += `:fontsize=${fontSize}`
-    introFilter += `:fontcolor=${fontColor}`
-    introFilter += `:x=${textX}`
-    introFilter += `:y=${textY}`
-    introFilter += `:borderw=3`
-    introFilter += `:bordercolor=black`
-    introFilter += `:shadowcolor=black@0.6`
-    introFilter += `:shadowx=4`
-    introFilter += `:shadowy=4`
-    introFilter += `:enable='between(t,0,${hookDuration})'`
-    // Use bold font if specified
-    if (fontWeight === "bold") {
-      introFilter += `:font=DejaVu Sans Bold`
-    }
-  }
-
-  introFilter += "[v0]"
-  filterParts.push(introFilter)
-
-  // === MAIN VIDEO PROCESSING ===
-  let mainFilter = "[1:v]"
-
-  // Apply demo trimming first if needed
-  if (config?.demoTrim && !config.demoTrim.useFullVideo) {
-    mainFilter += `trim=start=${demoStartTime}:end=${config.demoTrim.endTime},setpts=PTS-STARTPTS,`
-  }
-
-  mainFilter += "scale=1080:1920:force_original_aspect_ratio=decrease,"
-  mainFilter += "pad=1080:1920:(ow-iw)/2:(oh-ih)/2:black,"
-  mainFilter += "setsar=1,fps=30"
-
-  // Apply demo effect if specified
-  if (config?.demoEffect && config.demoEffect.type !== "none") {
-    const effectFilter = buildEffectFilter(config.demoEffect)
-    if (effectFilter) {
-      mainFilter += "," + effectFilter
-    }
-  }
-
-  mainFilter += "[v1]"
-  filterParts.push(mainFilter)
-
-  // === COMBINE VIDEOS ===
-  const transition = config?.transition
-
-  if (transition && transition.type !== "cut" && transition.duration > 0) {
-    const transitionFilter = buildTransitionFilter(transition, hookDuration)
-    if (transitionFilter) {
-      filterParts.push(`[v0][v1]${transitionFilter}[outv]`)
-    } else {
-      filterParts.push("[v0][v1]concat=n=2:v=1:a=0[outv]")
-    }
-  } else {
-    filterParts.push("[v0][v1]concat=n=2:v=1:a=0[outv]")
-  }
-
-  args.push("-filter_complex", filterParts.join(";"))
-  args.push("-map", "[outv]")
-
-  // No audio output
-  args.push("-an")
-
-  // Output settings optimized for FAST processing and small file size
-  // TikTok compresses videos anyway, so we prioritize speed over quality
-  args.push(
-    "-c:v", "libx264",
-    "-preset", "veryfast",    // Fast encoding (ultrafast/superfast/veryfast/faster/fast/medium)
-    "-crf", "26",             // Smaller file size, good enough for social media (18-28 range)
-    "-profile:v", "main",     // Good compatibility with mobile devices
-    "-level", "4.0",
-    "-pix_fmt", "yuv420p",
-    "-movflags", "+faststart"
-  )
-
-  args.push(outputPath)
-
-  return args
+// The full argv runFFmpeg passes to ffmpeg for `args`.
+// Machine-readable progress goes to stdout as key=value lines.
+export function getFFmpegArgv(args: string[]): string[] {
+  return ["-progress", "pipe:1", "-nostats", ...args]
 }
 
-// Run FFmpeg command with timeout
-const FFMPEG_TIMEOUT_MS = 2 * 60 * 1000 // 2 minutes (should be plenty with simplified processing)
-
-function runFFmpeg(args: string[]): Promise<{ success: boolean; error?: string }> {
+// `onProgress` receives the output timestamp (seconds) FFmpeg has reached
+export function runFFmpeg(
+  args: string[],
+  signal?: AbortSignal,
+  onProgress?: (outTimeSec: number) => void
+): Promise<FFmpegResult> {
   return new Promise((resolve) => {
-    console.log(`   🎬 Running FFmpeg...`)
-    console.log(`   Command: ffmpeg ${args.join(" ").slice(0, 200)}...`)
+    // The whole argv, untruncated, so any render can be replayed from the logs
+    const argv = getFFmpegArgv(args)
 
-    // Log the filter_complex for debugging
-    const filterIdx = args.indexOf("-filter_complex")
-    if (filterIdx !== -1 && args[filterIdx + 1]) {
-      console.log(`   Filter: ${args[filterIdx + 1].slice(0, 500)}...`)
+    // Don't start a render nobody is waiting for
+    if (signal?.aborted) {
+      resolve({ success: false, error: "FFmpeg was aborted", errorClass: "retryable" })
+      return
     }
 
-    const ffmpeg = spawn("ffmpeg", args)
+    log.info("Running FFmpeg", { ffmpeg_argv: argv })
+    const ffmpeg = spawn("ffmpeg", argv)
     let stderr = ""
+    let stdoutBuffer = ""
     let resolved = false
 
     // Set timeout to kill hung processes
     const timeout = setTimeout(() => {
       if (!resolved) {
         resolved = true
-        console.error(`   ❌ FFmpeg timeout after ${FFMPEG_TIMEOUT_MS / 1000}s - killing process`)
+        log.error("FFmpeg timed out, killing process", { timeout_ms: FFMPEG_TIMEOUT_MS })
         ffmpeg.kill("SIGKILL")
-        resolve({ success: false, error: `FFmpeg timed out after ${FFMPEG_TIMEOUT_MS / 1000} seconds` })
+        resolve({
+          success: false,
+          error: `FFmpeg timed out after ${FFMPEG_TIMEOUT_MS / 1000} seconds`,
+          errorClass: "retryable",
+          stderrTail: stderr,
+        })
       }
     }, FFMPEG_TIMEOUT_MS)
 
+    // Kill the render if the caller gives up on it (e.g. worker shutdown)
+    const onAbort = () => {
+      if (!resolved) {
+        resolved = true
+        clearTimeout(timeout)
+        log.info("FFmpeg aborted, killing process")
+        ffmpeg.kill("SIGKILL")
+        resolve({ success: false, error: "FFmpeg was aborted", errorClass: "retryable" })
+      }
+    }
+    signal?.addEventListener("abort", onAbort, { once: true })
+
     ffmpeg.stderr.on("data", (data) => {
-      stderr += data.toString()
+      stderr = (stderr + data.toString()).slice(-STDERR_TAIL_BYTES)
+    })
+
+    ffmpeg.stdout.on("data", (data) => {
+      stdoutBuffer += data.toString()
+      const lines = stdoutBuffer.split("\n")
+      stdoutBuffer = lines.pop() || ""
+
+      for (const line of lines) {
+        const outTimeSec = parseProgressLine(line)
+        if (outTimeSec !== null && onProgress) {
+          onProgress(outTimeSec)
+        }
+      }
     })
 
     ffmpeg.on("error", (error) => {
+      signal?.removeEventListener("abort", onAbort)
       if (!resolved) {
         resolved = true
         clearTimeout(timeout)
-        resolve({ success: false, error: `FFmpeg failed to start: ${error.message}` })
+        log.error("FFmpeg failed to start", { error })
+        resolve({ success: false, error: `FFmpeg failed to start: ${error.message}`, errorClass: "retryable" })
       }
     })
 
-    ffmpeg.on("close", (code) => {
+    ffmpeg.on("close", (code, exitSignal) => {
+      signal?.removeEventListener("abort", onAbort)
       if (resolved) return
       resolved = true
       clearTimeout(timeout)
 
       if (code === 0) {
-        console.log(`   ✓ FFmpeg completed successfully`)
+        log.info("FFmpeg completed")
         resolve({ success: true })
+      } else if (exitSignal) {
+        // Killed from outside (e.g. the OOM killer) - the input may be fine
+        log.error("FFmpeg was killed", { signal: exitSignal })
+        resolve({ success: false, error: `FFmpeg was killed by ${exitSignal}`, errorClass: "retryable", stderrTail: stderr })
       } else {
         // Extract error from stderr - look for lines with error keywords
         const errorLines = stderr.split("\n").filter(
@@ -342,48 +168,16 @@ function runFFmpeg(args: string[]): Promise<{ success: boolean; error?: string }
         const errorMessage = errorLines.length > 0
           ? errorLines.slice(-3).join("; ")
           : lastLines.join("; ") || `FFmpeg exited with code ${code}`
-        console.error(`   ❌ FFmpeg error: ${errorMessage}`)
-        resolve({ success: false, error: errorMessage })
+        const errorClass = classifyFFmpegFailure(stderr)
+        log.error("FFmpeg failed", { exit_code: code, error: errorMessage, error_class: errorClass })
+        resolve({ success: false, error: errorMessage, errorClass, stderrTail: stderr })
       }
     })
   })
 }
 
-// Upload file to Supabase Storage
-async function uploadToStorage(
-  supabase: SupabaseClient,
-  filePath: string,
-  userId: string,
-  jobId: string
-): Promise<string> {
-  console.log(`   📤 Uploading to Supabase Storage...`)
-
-  const fileBuffer = await readFile(filePath)
-  const storagePath = `${userId}/output/${jobId}.mp4`
-
-  const { error: uploadError } = await supabase.storage
-    .from("videos")
-    .upload(storagePath, fileBuffer, {
-      contentType: "video/mp4",
-      upsert: true,
-    })
-
-  if (uploadError) {
-    throw new Error(`Upload failed: ${uploadError.message}`)
-  }
-
-  // Get public URL
-  const { data: urlData } = supabase.storage
-    .from("videos")
-    .getPublicUrl(storagePath)
-
-  console.log(`   ✓ Uploaded to: ${urlData.publicUrl}`)
-
-  return urlData.publicUrl
-}
-
 // Cleanup temporary files
-async function cleanup(files: string[]): Promise<void> {
+export async function cleanup(files: string[]): Promise<void> {
   for (const file of files) {
     try {
       if (existsSync(file)) {
@@ -395,90 +189,412 @@ async function cleanup(files: string[]): Promise<void> {
   }
 }
 
-// Main processing function
-export async function processJob(
+// Remove everything left in TMP_DIR (used on shutdown)
+export async function cleanupTmpDir(): Promise<void> {
+  if (!existsSync(TMP_DIR)) {
+    return
+  }
+
+  const entries = await readdir(TMP_DIR)
+  await Promise.all(
+    entries.map((entry) => rm(path.join(TMP_DIR, entry), { recursive: true, force: true }).catch(() => {
+      // Ignore cleanup errors
+    }))
+  )
+}
+
+// Upload a rendered file, counting its size for /metrics
+async function uploadFile(storage: OutputStorage, filePath: string, storagePath: string, contentType: string): Promise<string> {
+  const url = await storage.upload(filePath, storagePath, contentType)
+  uploadBytes.inc((await stat(filePath)).size)
+  return url
+}
+
+// A batch job's variant, ready to render once its demo segments are swapped
+// for the shared ones (see planSharedSegments)
+export interface PreparedVariant {
+  name: string
+  // The job with the variant's overrides applied
+  job: VideoJob
+  inputs: SegmentInput[]
+}
+
+// Everything needed to build the FFmpeg commands for a job
+export interface PreparedJob {
+  inputs: SegmentInput[]
+  formats: OutputFormat[]
+  extras: ExtraInputs
+  // Set for batch jobs
+  variants: PreparedVariant[] | null
+}
+
+export interface PrepareOptions {
+  // Temp files are added here as they're created, for the caller to clean up
+  filesToCleanup: string[]
+  progress?: ProgressReporter
+  events?: JobEventRecorder
+  signal?: AbortSignal
+}
+
+// Validate the job, then download, probe and check its inputs against the
+// config, once for the whole batch if it has variants. Shared by the worker
+// and the CLI.
+export async function prepareJob(
   job: VideoJob,
-  supabase: SupabaseClient
-): Promise<ProcessResult> {
+  queue: Pick<JobQueue, "getUserSettings">,
+  options: PrepareOptions
+): Promise<PreparedJob> {
+  const { filesToCleanup, progress, events, signal } = options
   await ensureTmpDir()
 
-  const introPath = path.join(TMP_DIR, `${job.id}-intro.mp4`)
-  const mainPath = path.join(TMP_DIR, `${job.id}-main.mp4`)
-  const outputPath = path.join(TMP_DIR, `${job.id}-output.mp4`)
-  const filesToCleanup = [introPath, mainPath, outputPath]
+  // Reject bad configs before downloading anything
+  events?.stage("validate")
+  validateJob(job)
 
-  try {
-    // Log config for debugging
-    if (job.config) {
-      console.log(`   📋 Job config:`)
-      if (job.config.hookTrim && !job.config.hookTrim.useFullVideo) {
-        console.log(`      - Hook trim: ${job.config.hookTrim.startTime}s - ${job.config.hookTrim.endTime}s`)
+  const watermark = await resolveWatermark(queue, job)
+
+  const timeline = resolveTimeline(job)
+  const segmentPaths = timeline.map((_, i) => path.join(TMP_DIR, `${job.id}-segment-${i}.mp4`))
+  filesToCleanup.push(...segmentPaths)
+
+  const formats = resolveOutputFormats(job.config)
+
+  // The full config, so a failed render can be reproduced from the logs
+  log.info("Job config", {
+    hook_text: job.hook_text,
+    config: job.config,
+    outputs: formats.map((f) => `${f.name} ${f.width}x${f.height}@${f.fps}`),
+    watermark_source: watermark ? (job.config?.watermark === undefined ? "user default" : "job") : undefined,
+  })
+
+  // Download source videos
+  events?.stage("download")
+  progress?.stage("downloading")
+  let downloaded = 0
+  await Promise.all(
+    timeline.map(async (segment, i) => {
+      await downloadFile(segment.url, segmentPaths[i], signal)
+      progress?.update(++downloaded / timeline.length)
+    })
+  )
+
+  // Download and parse subtitle files before spending time on probing
+  const subtitles = await Promise.all(
+    timeline.map(async (segment, i) => {
+      if (!segment.subtitlesUrl) {
+        return undefined
       }
-      if (job.config.demoTrim && !job.config.demoTrim.useFullVideo) {
-        console.log(`      - Demo trim: ${job.config.demoTrim.startTime}s - ${job.config.demoTrim.endTime}s`)
+      const subtitlesPath = path.join(TMP_DIR, `${job.id}-segment-${i}.subtitles`)
+      filesToCleanup.push(subtitlesPath)
+      await downloadFile(segment.subtitlesUrl, subtitlesPath, signal)
+      const cues = parseSubtitles(await readFile(subtitlesPath, "utf8"), `segment ${i + 1}`)
+      log.info("Parsed subtitles", { segment: i + 1, cues: cues.length })
+      return cues
+    })
+  )
+
+  // Watermark and music go through the same allowlist and size limits
+  let watermarkInput: WatermarkInput | null = null
+  if (watermark) {
+    const extension = path.extname(new URL(watermark.url).pathname).toLowerCase() || ".png"
+    const watermarkPath = path.join(TMP_DIR, `${job.id}-watermark${extension}`)
+    filesToCleanup.push(watermarkPath)
+    await downloadFile(watermark.url, watermarkPath, signal)
+    watermarkInput = { path: watermarkPath, watermark }
+  }
+
+  let musicInput: MusicInput | null = null
+  const music = job.config?.music
+  if (music) {
+    const extension = path.extname(new URL(music.url).pathname).toLowerCase() || ".mp3"
+    const musicPath = path.join(TMP_DIR, `${job.id}-music${extension}`)
+    filesToCleanup.push(musicPath)
+    await downloadFile(music.url, musicPath, signal)
+    musicInput = { path: musicPath, music }
+  }
+
+  signal?.throwIfAborted()
+
+  // Probe inputs for durations (transition offsets, text timing), rotation
+  // and audio, and reject anything that isn't a usable video
+  events?.stage("probe")
+  const probedInputs: SegmentInput[] = await Promise.all(
+    timeline.map(async (segment, i) => {
+      const media = await probeMedia(segmentPaths[i], `Segment ${i + 1}`, signal)
+      log.info("Probed segment", { segment: i + 1, media })
+      return { path: segmentPaths[i], segment, media, subtitles: subtitles[i] }
+    })
+  )
+
+  // Check trims and transitions against the real clip lengths
+  const inputs = validateAgainstMedia(job, probedInputs)
+
+  // Every variant renders from the same downloads, with its own hook options
+  let variants: PreparedVariant[] | null = null
+  const resolvedVariants = resolveVariants(job)
+  if (resolvedVariants) {
+    const variantInputs = validateVariantsAgainstMedia(job, resolvedVariants.map(({ variant, job: variantJob }) => {
+      const [hook] = resolveTimeline(variantJob)
+      return { variant, inputs: [{ ...probedInputs[0], segment: hook }, ...probedInputs.slice(1)] }
+    }))
+    variants = resolvedVariants.map(({ name, job: variantJob }, i) => ({ name, job: variantJob, inputs: variantInputs[i] }))
+    log.info("Batch job", { variants: variants.map((variant) => variant.name) })
+  }
+
+  return {
+    inputs,
+    formats,
+    extras: { watermark: watermarkInput, music: musicInput },
+    variants,
+  }
+}
+
+// One video to render and upload: the job, or one of its variants, in one format
+interface RenderTask {
+  // Variant name, for batch jobs
+  variant: string | null
+  job: VideoJob
+  inputs: SegmentInput[]
+  format: OutputFormat
+  formatIndex: number
+  // Used in stage names, e.g. "tiktok" or "v2:tiktok"
+  label: string
+  outputPath: string
+  posterPath: string
+  previewPath: string
+  // Appended to the job id in storage paths and filenames
+  suffix: string
+}
+
+// Main processing function. Aborting `signal` stops the job between stages
+// and kills a running FFmpeg.
+export async function processJob(
+  job: VideoJob,
+  queue: Pick<JobQueue, "updateProgress" | "getUserSettings" | "recordJobEvent" | "reserveRenderSeconds">,
+  storage: OutputStorage,
+  signal?: AbortSignal
+): Promise<ProcessResult> {
+  const filesToCleanup: string[] = []
+  const progress = createProgressReporter(queue, job)
+  const events = createJobEventRecorder(queue, job)
+
+  try {
+    const { inputs, formats, extras, variants } = await prepareJob(job, queue, { filesToCleanup, progress, events, signal })
+
+    // What to render for each format: the job itself, or every variant
+    const renders: { name: string | null; job: VideoJob; inputs: SegmentInput[] }[] = variants ?? [{ name: null, job, inputs }]
+    const tasks: RenderTask[] = formats.flatMap((format, formatIndex) =>
+      renders.map((render) => {
+        // <variant>-<preset> for batches, so every file and stage name is unique
+        const key = render.name ? `${render.name}-${format.name}` : format.name
+        return {
+          variant: render.name,
+          job: render.job,
+          inputs: render.inputs,
+          format,
+          formatIndex,
+          label: render.name ? `${render.name}:${format.name}` : format.name,
+          outputPath: path.join(TMP_DIR, `${job.id}-output-${key}.mp4`),
+          posterPath: path.join(TMP_DIR, `${job.id}-poster-${key}.${POSTER_FILES[render.job.config?.poster?.format ?? "jpeg"].extension}`),
+          previewPath: path.join(TMP_DIR, `${job.id}-preview-${key}.mp4`),
+          // The first keeps the original storage path so existing links to a
+          // job's output stay valid
+          suffix: `${render.name ? `-${render.name}` : ""}${formatIndex === 0 ? "" : `-${format.name}`}`,
+        }
+      })
+    )
+    filesToCleanup.push(...tasks.flatMap((task) => [task.outputPath, task.posterPath, task.previewPath]))
+
+    // Rendering progress is split evenly between FFmpeg runs, counting each
+    // shared demo segment of a batch as one
+    const sharedByFormat = variants ? formats.map((format) => planSharedSegments(inputs, format, path.join(TMP_DIR, job.id))) : null
+    filesToCleanup.push(...(sharedByFormat ?? []).flatMap((shared) => shared.paths))
+    const totalSteps = (sharedByFormat ?? []).reduce((total, shared) => total + shared.commands.length, tasks.length)
+    let step = 0
+
+    // Build every command up front: the total output length counts toward the
+    // user's daily render quota while the job is still rendering
+    const ffmpegCommands = tasks.map((task) => {
+      const shared = sharedByFormat?.[task.formatIndex]
+      const taskInputs = shared ? [task.inputs[0], ...shared.inputs] : task.inputs
+      return buildFFmpegArgs(taskInputs, task.outputPath, task.job.hook_text, task.job.config, task.format, extras)
+    })
+    const durations = ffmpegCommands.map((command) => command.duration)
+    await queue.reserveRenderSeconds(job, durations.reduce((total, duration) => total + duration, 0))
+
+    const onRenderProgress = (duration: number) => (outTimeSec: number) => {
+      if (duration > 0) {
+        progress.update((step + Math.min(1, outTimeSec / duration)) / totalSteps)
       }
-      if (job.config.transition) {
-        console.log(`      - Transition: ${job.config.transition.type} (${job.config.transition.duration}ms)`)
+    }
+
+    // Render every variant. Batches render each format's demo segments once
+    // and reuse them for every variant, then drop them before the next format.
+    progress.stage("rendering")
+    let normalizedFormat = -1
+    for (const [i, task] of tasks.entries()) {
+      const shared = sharedByFormat?.[task.formatIndex]
+      if (sharedByFormat && shared && task.formatIndex !== normalizedFormat) {
+        // Done with the previous format's intermediates
+        if (normalizedFormat >= 0) {
+          await cleanup(sharedByFormat[normalizedFormat].paths)
+        }
+        normalizedFormat = task.formatIndex
+
+        events.stage(`normalize:${task.format.name}`)
+        for (const command of shared.commands) {
+          const normalizeResult = await runFFmpeg(command.args, signal, onRenderProgress(command.duration))
+          if (!normalizeResult.success) {
+            events.finish(signal?.aborted ? "aborted" : "error", {
+              error: normalizeResult.error,
+              ffmpeg_argv: getFFmpegArgv(command.args),
+              stderr_tail: normalizeResult.stderrTail,
+            })
+            return { success: false, error: normalizeResult.error, errorClass: normalizeResult.errorClass, errorStage: "ffmpeg", attempts: job.attempts }
+          }
+          step++
+        }
       }
-      if (job.config.hookEffect && job.config.hookEffect.type !== "none") {
-        console.log(`      - Hook effect: ${job.config.hookEffect.type} (${job.config.hookEffect.intensity})`)
+
+      const ffmpegCommand = ffmpegCommands[i]
+      events.stage(`render:${task.label}`)
+      const renderStartedAt = Date.now()
+      const ffmpegResult = await runFFmpeg(ffmpegCommand.args, signal, onRenderProgress(ffmpegCommand.duration))
+
+      if (!ffmpegResult.success) {
+        // Everything support needs to replay the render
+        events.finish(signal?.aborted ? "aborted" : "error", {
+          error: ffmpegResult.error,
+          ffmpeg_argv: getFFmpegArgv(ffmpegCommand.args),
+          stderr_tail: ffmpegResult.stderrTail,
+        })
+        return {
+          success: false,
+          error: ffmpegResult.error,
+          errorClass: ffmpegResult.errorClass,
+          errorStage: "ffmpeg",
+          attempts: job.attempts,
+        }
       }
-      if (job.config.demoEffect && job.config.demoEffect.type !== "none") {
-        console.log(`      - Demo effect: ${job.config.demoEffect.type} (${job.config.demoEffect.intensity})`)
+      renderDuration.observe((Date.now() - renderStartedAt) / 1000, { preset: task.format.name })
+
+      // Verify output exists
+      if (!existsSync(task.outputPath)) {
+        events.finish("error", { error: "Output file was not created", ffmpeg_argv: getFFmpegArgv(ffmpegCommand.args) })
+        return { success: false, error: "Output file was not created", errorClass: "retryable", errorStage: "ffmpeg", attempts: job.attempts }
       }
-      if (job.config.textPosition) {
-        console.log(`      - Text position: (${job.config.textPosition.x}%, ${job.config.textPosition.y}%)`)
+      signal?.throwIfAborted()
+
+      // Poster and preview are nice-to-haves: the library falls back without
+      // them, so a failure here doesn't fail the render
+      const posterTime = resolvePosterTime(task.job.config, ffmpegCommand)
+      const posterFormat = task.job.config?.poster?.format ?? "jpeg"
+      events.stage(`thumbnails:${task.label}`)
+      const posterResult = await runFFmpeg(buildPosterArgs(task.outputPath, task.posterPath, posterTime, posterFormat), signal)
+      if (!posterResult.success) {
+        log.warn("Poster failed, continuing without it", { error: posterResult.error, stderr_tail: posterResult.stderrTail })
+        await cleanup([task.posterPath])
       }
-      if (job.config.textStyle) {
-        console.log(`      - Text style: ${job.config.textStyle.fontSize}, ${job.config.textStyle.color}`)
+      signal?.throwIfAborted()
+      const previewResult = await runFFmpeg(buildPreviewArgs(task.outputPath, task.previewPath, task.job.config, ffmpegCommand.duration), signal)
+      if (!previewResult.success) {
+        log.warn("Preview failed, continuing without it", { error: previewResult.error, stderr_tail: previewResult.stderrTail })
+        await cleanup([task.previewPath])
       }
-    }
 
-    // Download source videos
-    console.log(`   📥 Downloading source videos...`)
-    await Promise.all([
-      downloadFile(job.intro_url, introPath),
-      downloadFile(job.main_url, mainPath),
-    ])
-
-    // Build and run FFmpeg command
-    const ffmpegArgs = await buildFFmpegArgs(introPath, mainPath, outputPath, job.hook_text, job.config)
-
-    if (job.hook_text) {
-      const posInfo = job.config?.textPosition
-        ? `at (${job.config.textPosition.x}%, ${job.config.textPosition.y}%)`
-        : "centered"
-      console.log(`   📝 Text overlay: "${job.hook_text}" ${posInfo}`)
+      step++
+      signal?.throwIfAborted()
     }
 
-    const ffmpegResult = await runFFmpeg(ffmpegArgs)
-
-    if (!ffmpegResult.success) {
-      return { success: false, error: ffmpegResult.error }
-    }
-
-    // Verify output exists
-    if (!existsSync(outputPath)) {
-      return { success: false, error: "Output file was not created" }
+    // Upload every variant to storage, each with its own library row. A
+    // cancelled or failed job must not leave uploads or library rows behind,
+    // so if the phase doesn't finish, whatever it stored is removed again.
+    signal?.throwIfAborted()
+    progress.stage("uploading")
+    events.stage("upload")
+    const outputs: RenderedOutput[] = []
+    const storedPaths: string[] = []
+    try {
+      for (const [i, task] of tasks.entries()) {
+        signal?.throwIfAborted()
+        const storagePath = `${job.user_id}/output/${job.id}${task.suffix}.mp4`
+        // Recorded before the upload starts, since it may land even if we stop waiting for it
+        storedPaths.push(storagePath)
+        const url = await uploadFile(storage, task.outputPath, storagePath, "video/mp4")
+
+        // Poster and preview sit next to the video: <jobId>.jpg, <jobId>-preview.mp4
+        const posterFile = POSTER_FILES[task.job.config?.poster?.format ?? "jpeg"]
+        let posterUrl: string | null = null
+        if (existsSync(task.posterPath)) {
+          const posterStoragePath = `${job.user_id}/output/${job.id}${task.suffix}.${posterFile.extension}`
+          storedPaths.push(posterStoragePath)
+          posterUrl = await uploadFile(storage, task.posterPath, posterStoragePath, posterFile.contentType)
+        }
+        let previewUrl: string | null = null
+        if (existsSync(task.previewPath)) {
+          const previewStoragePath = `${job.user_id}/output/${job.id}${task.suffix}-preview.mp4`
+          storedPaths.push(previewStoragePath)
+          previewUrl = await uploadFile(storage, task.previewPath, previewStoragePath, "video/mp4")
+        }
+
+        // Also save to videos table for the user's library
+        signal?.throwIfAborted()
+        await storage.saveVideo({
+          user_id: job.user_id,
+          url,
+          filename: `hookly-${job.id.slice(0, 8)}${task.suffix}.mp4`,
+          type: "output",
+          storage_path: storagePath,
+          preset: task.format.name,
+          poster_url: posterUrl,
+          preview_url: previewUrl,
+          duration: durations[i],
+          width: task.format.width,
+          height: task.format.height,
+          batch_id: task.variant ? job.id : null,
+          variant: task.variant,
+        })
+
+        outputs.push({ name: task.format.name, ...(task.variant ? { variant: task.variant } : {}), url, duration: durations[i] })
+        progress.update((i + 1) / tasks.length)
+      }
+    } catch (err) {
+      try {
+        await storage.removeUploads(storedPaths)
+        log.info("Removed partial uploads", { storage_paths: storedPaths })
+      } catch (removeErr) {
+        log.error("Failed to remove partial uploads", { storage_paths: storedPaths, error: removeErr })
+      }
+      throw err
     }
 
-    // Upload to Supabase Storage
-    const outputUrl = await uploadToStorage(supabase, outputPath, job.user_id, job.id)
-
-    // Also save to videos table for the user's library
-    await supabase.from("videos").insert({
-      user_id: job.user_id,
-      url: outputUrl,
-      filename: `hookly-${job.id.slice(0, 8)}.mp4`,
-      type: "output",
-      storage_path: `${job.user_id}/output/${job.id}.mp4`,
-    })
-
-    return { success: true, outputUrl }
+    events.finish("ok")
+    return { success: true, outputUrl: outputs[0].url, outputs, attempts: job.attempts, duration: durations[0] }
   } catch (err) {
     const errorMessage = err instanceof Error ? err.message : "Unknown error"
-    return { success: false, error: errorMessage }
+    events.finish(signal?.aborted ? "aborted" : "error", {
+      error: errorMessage,
+      error_class: err instanceof JobError ? err.errorClass : "retryable",
+    })
+    if (err instanceof ValidationError) {
+      return {
+        success: false,
+        error: errorMessage,
+        errorClass: err.errorClass,
+        errorStage: err.stage,
+        fieldErrors: err.fieldErrors,
+        attempts: job.attempts,
+      }
+    }
+    if (err instanceof JobError) {
+      return { success: false, error: errorMessage, errorClass: err.errorClass, errorStage: err.stage, attempts: job.attempts }
+    }
+    // Unclassified errors are retried; the attempt limit stops them from looping
+    return { success: false, error: errorMessage, errorClass: "retryable", attempts: job.attempts }
   } finally {
+    await progress.flush()
+    await events.flush()
+
     // Cleanup temp files
     await cleanup(filesToCleanup)
   }
@@ -0,0 +1,83 @@
+import { log } from "./logger"
+import type { JobQueue } from "./queue"
+import type { JobProgressStage, VideoJob } from "./types"
+
+const PROGRESS_UPDATE_INTERVAL_MS = parseInt(process.env.PROGRESS_UPDATE_INTERVAL_MS || "2000", 10)
+
+// Share of the overall progress bar each stage covers, as [start, end] percent.
+// Rendering dominates wall-clock time, so it gets most of the bar.
+const STAGE_RANGES: Record<JobProgressStage, [number, number]> = {
+  downloading: [0, 10],
+  rendering: [10, 90],
+  uploading: [90, 100],
+}
+
+// The output timestamp (seconds) from one line of FFmpeg's `-progress`
+// output, or null for every other key. out_time_us is in microseconds
+// (out_time_ms is too, despite its name).
+export function parseProgressLine(line: string): number | null {
+  const match = line.match(/^out_time_(?:us|ms)=(\d+)/)
+  return match ? parseInt(match[1], 10) / 1_000_000 : null
+}
+
+export interface ProgressReporter {
+  // Enter a new stage (written immediately)
+  stage(stage: JobProgressStage): void
+  // Report how far the current stage is, from 0 to 1 (throttled)
+  update(fraction: number): void
+  // Wait for pending writes to land
+  flush(): Promise<void>
+}
+
+// Write `stage` and an overall `progress` percentage onto the job row so the
+// app can show a progress bar. Stage changes are written right away, progress
+// within a stage at most once per PROGRESS_UPDATE_INTERVAL_MS. Write failures
+// are logged and otherwise ignored - progress is best effort.
+export function createProgressReporter(queue: Pick<JobQueue, "updateProgress">, job: VideoJob): ProgressReporter {
+  let currentStage: JobProgressStage = "downloading"
+  let lastProgress = -1
+  let lastWriteAt = 0
+  let pending: Promise<void> = Promise.resolve()
+
+  function write(fields: { stage?: JobProgressStage; progress: number }): void {
+    lastWriteAt = Date.now()
+    lastProgress = fields.progress
+
+    // Chain writes so they land in order
+    pending = pending.then(async () => {
+      try {
+        await queue.updateProgress(job, fields)
+      } catch (err) {
+        log.warn("Failed to update progress", { error: err })
+      }
+    })
+  }
+
+  function toPercent(fraction: number): number {
+    const [start, end] = STAGE_RANGES[currentStage]
+    const clamped = Math.min(1, Math.max(0, fraction))
+    return Math.round(start + (end - start) * clamped)
+  }
+
+  return {
+    stage(stage) {
+      currentStage = stage
+      write({ stage, progress: toPercent(0) })
+    },
+
+    update(fraction) {
+      const progress = toPercent(fraction)
+      if (progress <= lastProgress) {
+        return
+      }
+      if (Date.now() - lastWriteAt < PROGRESS_UPDATE_INTERVAL_MS) {
+        return
+      }
+      write({ progress })
+    },
+
+    flush() {
+      return pending
+    },
+  }
+}
@@ -0,0 +1,101 @@
+import type { QuotaLimits } from "./scheduler"
+import type { JobEvent, JobProgressStage, ProcessResult, RenderedOutput, UserSettings, VideoJob, VideoJobStatus, WebhookDelivery } from "./types"
+
+export interface RetryPolicy {
+  maxAttempts: number
+  baseDelayMs: number
+  maxDelayMs: number
+}
+
+// Where jobs come from and where their outcome is recorded. Backed by the
+// video_jobs table in production (see supabase.ts) or a JSON file for local
+// runs (see local.ts).
+//
+// Result writes (complete, fail, cancel, release, progress) only apply while
+// `job.worker_id` still holds the claim, so a job that was reaped and picked
+// up elsewhere isn't overwritten by a late finish.
+export interface JobQueue {
+  // Atomically claim the next job in fair-share order (see planClaims),
+  // deferring the jobs of users who are out of render minutes for today
+  claimNextJob(workerId: string, quota: QuotaLimits): Promise<VideoJob | null>
+  // Mark a job as done. The first output is the job's primary output_url.
+  completeJob(job: VideoJob, outputs: RenderedOutput[]): Promise<void>
+  // Record a failed attempt and return the status it moved the job to
+  // (see getFailureOutcome)
+  failJob(job: VideoJob, result: ProcessResult, policy: RetryPolicy): Promise<VideoJobStatus>
+  // Mark a job the user cancelled
+  cancelJob(job: VideoJob): Promise<void>
+  // Hand a claimed job back to the queue without counting the attempt,
+  // e.g. when the worker is shutting down before the render finished
+  releaseJob(job: VideoJob): Promise<void>
+  // Set render_seconds to the output length the job is about to render, so
+  // it counts toward the user's daily quota before the job is done
+  reserveRenderSeconds(job: VideoJob, seconds: number): Promise<void>
+  // Write progress (and optionally the stage) onto the job
+  updateProgress(job: VideoJob, fields: { stage?: JobProgressStage; progress: number }): Promise<void>
+  // Refresh heartbeat_at on every job this worker is currently rendering
+  heartbeatJobs(workerId: string, jobIds: string[]): Promise<void>
+  // Which of this worker's in-flight jobs the user has asked to cancel
+  fetchCancelRequests(workerId: string, jobIds: string[]): Promise<string[]>
+  // Recover "processing" jobs whose worker stopped sending heartbeats, or
+  // never sent one (see getStaleOutcome). Returns the number of jobs reaped.
+  reapStaleJobs(staleAfterMs: number, policy: RetryPolicy): Promise<number>
+  // Per-user defaults, or null if the user has none
+  getUserSettings(userId: string): Promise<UserSettings | null>
+  // Jobs waiting to be claimed ("pending" or "deferred"), including ones
+  // backing off or deferred until tomorrow (for /metrics)
+  countPendingJobs(): Promise<number>
+  // Append a stage timing to the job's event history
+  recordJobEvent(event: JobEvent): Promise<void>
+  // Append a webhook delivery attempt to the job's delivery log
+  recordWebhookDelivery(delivery: WebhookDelivery): Promise<void>
+}
+
+// Exponential backoff: base, 2x base, 4x base... capped at maxDelayMs
+export function getRetryDelayMs(policy: RetryPolicy, attempts: number): number {
+  const delay = policy.baseDelayMs * Math.pow(2, Math.max(0, attempts - 1))
+  return Math.min(delay, policy.maxDelayMs)
+}
+
+// Where a failed attempt leaves the job. Retryable failures go back to
+// "pending" with a backoff until the policy runs out of attempts, then land
+// in "failed". Permanent failures go straight to "error".
+export function getFailureOutcome(
+  job: VideoJob,
+  result: ProcessResult,
+  policy: RetryPolicy,
+  now: Date
+): { status: VideoJobStatus; nextAttemptAt: string | null; errorMessage: string } {
+  const attempts = result.attempts ?? job.attempts
+
+  let status: VideoJobStatus
+  let nextAttemptAt: string | null = null
+  if (result.errorClass === "permanent") {
+    status = "error"
+  } else if (attempts < policy.maxAttempts) {
+    status = "pending"
+    nextAttemptAt = new Date(now.getTime() + getRetryDelayMs(policy, attempts)).toISOString()
+  } else {
+    status = "failed"
+  }
+
+  const stagePrefix = result.errorStage ? `[${result.errorStage}] ` : ""
+  return { status, nextAttemptAt, errorMessage: `${stagePrefix}${result.error || "Unknown error"}` }
+}
+
+// What a finished job counts toward its user's daily render quota
+export function getRenderSeconds(outputs: RenderedOutput[]): number {
+  return outputs.reduce((total, output) => total + output.duration, 0)
+}
+
+// Where a stale job goes: back to "pending", or dead-lettered if it already
+// used all its attempts. A job cancelled while its worker was dead isn't retried.
+export function getStaleOutcome(
+  job: Pick<VideoJob, "attempts" | "cancel_requested">,
+  policy: RetryPolicy
+): VideoJobStatus {
+  if (job.cancel_requested) {
+    return "cancelled"
+  }
+  return (job.attempts || 0) >= policy.maxAttempts ? "failed" : "pending"
+}
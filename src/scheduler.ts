@@ -0,0 +1,136 @@
+import type { UserSettings, VideoJob, VideoJobStatus } from "./types"
+
+// Statuses a worker may claim from, once next_attempt_at has passed
+export const CLAIMABLE_STATUSES: VideoJobStatus[] = ["pending", "deferred"]
+
+// Per-user limits. 0 means unlimited.
+export interface QuotaLimits {
+  // Jobs of one user processing at once, across all workers
+  maxConcurrentJobs: number
+  // Minutes of rendered output per UTC day, across all of a job's variants
+  dailyRenderMinutes: number
+}
+
+// The oldest claimable job of one user in one priority tier
+export type QueueHead = Pick<VideoJob, "id" | "user_id" | "priority" | "created_at" | "attempts">
+
+// The job fields usage is computed from
+export type UsageRow = Pick<VideoJob, "user_id" | "status" | "claimed_at" | "render_seconds">
+
+export interface UserUsage {
+  running: number
+  renderSeconds: number
+  lastClaimedAt: string | null
+}
+
+export interface ClaimPlan {
+  // Heads to try, best first
+  order: QueueHead[]
+  // Users who used up today's render minutes; their jobs wait for tomorrow
+  overQuota: { userId: string; limits: QuotaLimits }[]
+}
+
+export function startOfUtcDay(now: Date): Date {
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()))
+}
+
+export function startOfNextUtcDay(now: Date): Date {
+  return new Date(startOfUtcDay(now).getTime() + 24 * 60 * 60 * 1000)
+}
+
+// A user's own limits from user_settings, falling back to the worker defaults
+export function getUserLimits(settings: UserSettings | undefined, defaults: QuotaLimits): QuotaLimits {
+  return {
+    maxConcurrentJobs: settings?.max_concurrent_jobs ?? defaults.maxConcurrentJobs,
+    dailyRenderMinutes: settings?.daily_render_minutes ?? defaults.dailyRenderMinutes,
+  }
+}
+
+// The first claimable job per (priority, user). The Supabase queue gets the
+// same from the video_job_queue_heads view.
+export function getQueueHeads(jobs: VideoJob[], now: Date): QueueHead[] {
+  const nowIso = now.toISOString()
+  const heads = new Map<string, VideoJob>()
+  for (const job of jobs) {
+    if (!CLAIMABLE_STATUSES.includes(job.status) || (job.next_attempt_at && job.next_attempt_at > nowIso)) {
+      continue
+    }
+    const key = `${job.priority}:${job.user_id}`
+    const head = heads.get(key)
+    if (!head || job.created_at < head.created_at) {
+      heads.set(key, job)
+    }
+  }
+  return [...heads.values()]
+}
+
+// Running jobs, today's render seconds and the latest claim for each user.
+// Render seconds count jobs that are done, and running jobs once they've
+// reserved their expected output length; failed, cancelled and retrying jobs
+// don't count. `rows` must cover every processing job and every job claimed
+// since `dayStart`.
+export function summarizeUsage(rows: UsageRow[], dayStart: Date): Map<string, UserUsage> {
+  const dayStartIso = dayStart.toISOString()
+  const usage = new Map<string, UserUsage>()
+  for (const row of rows) {
+    const entry = usage.get(row.user_id) ?? { running: 0, renderSeconds: 0, lastClaimedAt: null }
+    if (row.status === "processing") {
+      entry.running++
+    }
+    if (row.claimed_at && row.claimed_at >= dayStartIso) {
+      if (row.status === "processing" || row.status === "done") {
+        entry.renderSeconds += row.render_seconds ?? 0
+      }
+      if (!entry.lastClaimedAt || row.claimed_at > entry.lastClaimedAt) {
+        entry.lastClaimedAt = row.claimed_at
+      }
+    }
+    usage.set(row.user_id, entry)
+  }
+  return usage
+}
+
+// Fair-share order: higher priority tiers first. Within a tier, users with
+// fewer running jobs go first, then whoever was served longest ago (round
+// robin), then the oldest job. Users at their concurrency limit are skipped
+// until a slot frees up; users out of render minutes are reported separately.
+export function planClaims(
+  heads: QueueHead[],
+  usage: Map<string, UserUsage>,
+  limitsFor: (userId: string) => QuotaLimits
+): ClaimPlan {
+  const empty: UserUsage = { running: 0, renderSeconds: 0, lastClaimedAt: null }
+  const overQuota = new Map<string, QuotaLimits>()
+  const eligible: QueueHead[] = []
+
+  for (const head of heads) {
+    const limits = limitsFor(head.user_id)
+    const { running, renderSeconds } = usage.get(head.user_id) ?? empty
+    if (limits.dailyRenderMinutes > 0 && renderSeconds >= limits.dailyRenderMinutes * 60) {
+      overQuota.set(head.user_id, limits)
+    } else if (limits.maxConcurrentJobs === 0 || running < limits.maxConcurrentJobs) {
+      eligible.push(head)
+    }
+  }
+
+  const order = eligible.sort((a, b) => {
+    const usageA = usage.get(a.user_id) ?? empty
+    const usageB = usage.get(b.user_id) ?? empty
+    return (
+      b.priority - a.priority ||
+      usageA.running - usageB.running ||
+      (usageA.lastClaimedAt ?? "").localeCompare(usageB.lastClaimedAt ?? "") ||
+      a.created_at.localeCompare(b.created_at)
+    )
+  })
+
+  return {
+    order,
+    overQuota: [...overQuota].map(([userId, limits]) => ({ userId, limits })),
+  }
+}
+
+// What a deferred job shows the app until it's picked up again
+export function getDeferralMessage(limits: QuotaLimits, until: Date): string {
+  return `[quota] Daily render quota of ${limits.dailyRenderMinutes} minutes used; deferred until ${until.toISOString()}`
+}
@@ -0,0 +1,29 @@
+// A rendered video (or variant) for the user's library
+export interface VideoRecord {
+  user_id: string
+  url: string
+  filename: string
+  type: "output"
+  storage_path: string
+  preset: string
+  poster_url: string | null
+  preview_url: string | null
+  duration: number
+  width: number
+  height: number
+  // The job id, shared by every variant of a batch job (null otherwise)
+  batch_id: string | null
+  variant: string | null
+}
+
+// Where rendered files go. Supabase Storage plus the videos table in
+// production (see supabase.ts), a plain directory for local runs (see local.ts).
+export interface OutputStorage {
+  // Store a local file at `storagePath` and return the URL it's served from
+  upload(filePath: string, storagePath: string, contentType: string): Promise<string>
+  // Add a rendered video to the user's library
+  saveVideo(record: VideoRecord): Promise<void>
+  // Remove files stored by upload() and the library rows that point at them,
+  // undoing an upload phase that didn't finish. Missing files are ignored.
+  removeUploads(storagePaths: string[]): Promise<void>
+}
@@ -0,0 +1,103 @@
+import { permanent } from "./errors"
+import type { SubtitleCue } from "./types"
+
+// HH:MM:SS,mmm (SRT) or [HH:]MM:SS.mmm (WebVTT)
+const TIMESTAMP_PATTERN = /^(?:(\d+):)?(\d{1,2}):(\d{2})[,.](\d{1,3})$/
+
+// Parse a timestamp into seconds, or null if it's malformed
+function parseTimestamp(value: string): number | null {
+  const match = value.trim().match(TIMESTAMP_PATTERN)
+  if (!match) {
+    return null
+  }
+  const [, hours, minutes, seconds, millis] = match
+  if (parseInt(minutes, 10) > 59 || parseInt(seconds, 10) > 59) {
+    return null
+  }
+  return (
+    parseInt(hours || "0", 10) * 3600 +
+    parseInt(minutes, 10) * 60 +
+    parseInt(seconds, 10) +
+    parseInt(millis.padEnd(3, "0"), 10) / 1000
+  )
+}
+
+// Drop markup FFmpeg would print literally: <i>, <c.yellow>, <00:01.000>, {\an8}
+function stripMarkup(text: string): string {
+  return text
+    .replace(/<[^>]*>/g, "")
+    .replace(/\{\\[^}]*\}/g, "")
+    .replace(/&amp;/g, "&")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&nbsp;/g, " ")
+    .trim()
+}
+
+// Parse an SRT or WebVTT file into cues. `label` identifies the file in errors.
+// Malformed files throw a permanent error - retrying won't fix them.
+export function parseSubtitles(content: string, label: string): SubtitleCue[] {
+  const normalized = content.replace(/^\uFEFF/, "").replace(/\r\n?/g, "\n")
+  const lines = normalized.split("\n")
+  const cues: SubtitleCue[] = []
+
+  const fail = (lineNumber: number, reason: string) =>
+    permanent("subtitles", `Invalid subtitle file for ${label}: line ${lineNumber}: ${reason}`)
+
+  let i = 0
+  while (i < lines.length) {
+    // Collect the next block of non-blank lines
+    while (i < lines.length && !lines[i].trim()) {
+      i++
+    }
+    const blockStart = i
+    const block: string[] = []
+    while (i < lines.length && lines[i].trim()) {
+      block.push(lines[i])
+      i++
+    }
+    if (block.length === 0) {
+      break
+    }
+
+    // WebVTT header and metadata blocks carry no cues
+    if (/^(WEBVTT|NOTE|STYLE|REGION)\b/.test(block[0])) {
+      continue
+    }
+
+    // The timing line is first, or second after an SRT index / VTT cue id
+    const timingIndex = block.findIndex((line) => line.includes("-->"))
+    if (timingIndex === -1 || timingIndex > 1) {
+      throw fail(blockStart + 1, `expected a "start --> end" timing line, got "${block[0].slice(0, 40)}"`)
+    }
+
+    const timingLine = block[timingIndex]
+    const lineNumber = blockStart + timingIndex + 1
+    const [startPart, endPart] = timingLine.split("-->")
+    // WebVTT allows cue settings after the end time
+    const endToken = endPart.trim().split(/\s+/)[0] || ""
+    const start = parseTimestamp(startPart)
+    const end = parseTimestamp(endToken)
+
+    if (start === null) {
+      throw fail(lineNumber, `malformed start time "${startPart.trim()}"`)
+    }
+    if (end === null) {
+      throw fail(lineNumber, `malformed end time "${endToken}"`)
+    }
+    if (end <= start) {
+      throw fail(lineNumber, `cue ends before it starts`)
+    }
+
+    const text = stripMarkup(block.slice(timingIndex + 1).join("\n"))
+    if (text) {
+      cues.push({ start, end, text })
+    }
+  }
+
+  if (cues.length === 0) {
+    throw permanent("subtitles", `Invalid subtitle file for ${label}: no cues found`)
+  }
+
+  return cues
+}
@@ -0,0 +1,430 @@
+import { createReadStream } from "fs"
+import { stat } from "fs/promises"
+import path from "path"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { retryable, permanent, isRetryableStatus } from "./errors"
+import { log } from "./logger"
+import { getFailureOutcome, getRenderSeconds, getStaleOutcome } from "./queue"
+import type { JobQueue } from "./queue"
+import { CLAIMABLE_STATUSES, getDeferralMessage, getUserLimits, planClaims, startOfNextUtcDay, startOfUtcDay, summarizeUsage } from "./scheduler"
+import type { QueueHead, UsageRow } from "./scheduler"
+import type { OutputStorage } from "./storage"
+import type { UserSettings, VideoJob } from "./types"
+
+const STORAGE_BUCKET = "videos"
+
+// Queue heads read per claim: the highest priority tiers, oldest first. The
+// view has one row per (priority, user), so this bounds the claim queries when
+// many users are waiting; users past the limit get their turn as others drain.
+const CLAIM_HEADS_LIMIT = 100
+
+// The video_jobs table as a queue
+export function createSupabaseJobQueue(supabase: SupabaseClient): JobQueue {
+  return {
+    // Pick from the head of each user's queue (the video_job_queue_heads view)
+    // in fair-share order. The update only matches while the row is still
+    // claimable, so when another worker wins the race we get no row back and
+    // try the next candidate.
+    async claimNextJob(workerId, quota) {
+      const { data: heads, error } = await supabase
+        .from("video_job_queue_heads")
+        .select("id, user_id, priority, created_at, attempts")
+        .order("priority", { ascending: false })
+        .order("created_at", { ascending: true })
+        .limit(CLAIM_HEADS_LIMIT)
+
+      if (error) {
+        throw new Error(`Failed to fetch pending jobs: ${error.message}`)
+      }
+      if (!heads || heads.length === 0) {
+        return null
+      }
+
+      const now = new Date()
+      const userIds = [...new Set(heads.map((head) => head.user_id as string))]
+      const [usageResult, settingsResult] = await Promise.all([
+        supabase
+          .from("video_jobs")
+          .select("user_id, status, claimed_at, render_seconds")
+          .in("user_id", userIds)
+          .or(`status.eq.processing,claimed_at.gte.${startOfUtcDay(now).toISOString()}`),
+        supabase
+          .from("user_settings")
+          .select("*")
+          .in("user_id", userIds),
+      ])
+      if (usageResult.error) {
+        throw new Error(`Failed to fetch job usage: ${usageResult.error.message}`)
+      }
+      if (settingsResult.error) {
+        throw new Error(`Failed to fetch user settings: ${settingsResult.error.message}`)
+      }
+
+      const settings = new Map((settingsResult.data as UserSettings[]).map((row) => [row.user_id, row]))
+      const { order, overQuota } = planClaims(
+        heads as QueueHead[],
+        summarizeUsage(usageResult.data as UsageRow[], startOfUtcDay(now)),
+        (userId) => getUserLimits(settings.get(userId), quota)
+      )
+
+      // Park everything these users have queued until the quota resets. The
+      // view leaves out jobs that are already deferred, so a user only shows
+      // up here again if they queued more jobs since; those are all deferred
+      // with one update per distinct quota. Jobs backing off from a failed
+      // attempt keep their status and error: they stay unclaimable while the
+      // user is over quota.
+      const until = startOfNextUtcDay(now)
+      const usersByMessage = new Map<string, string[]>()
+      for (const { userId, limits } of overQuota) {
+        const message = getDeferralMessage(limits, until)
+        usersByMessage.set(message, [...(usersByMessage.get(message) ?? []), userId])
+      }
+      for (const [message, userIds] of usersByMessage) {
+        const { data: deferred, error: deferError } = await supabase
+          .from("video_jobs")
+          .update({
+            status: "deferred",
+            next_attempt_at: until.toISOString(),
+            error_message: message,
+            updated_at: now.toISOString(),
+          })
+          .in("user_id", userIds)
+          .in("status", CLAIMABLE_STATUSES)
+          .eq("attempts", 0)
+          .or(`next_attempt_at.is.null,next_attempt_at.lt.${until.toISOString()}`)
+          .select("id")
+
+        if (deferError) {
+          throw new Error(`Failed to defer jobs over the daily render quota: ${deferError.message}`)
+        }
+        if (deferred && deferred.length > 0) {
+          log.info("Deferred jobs over the daily render quota", { user_ids: userIds, count: deferred.length })
+        }
+      }
+
+      for (const candidate of order) {
+        const claimedAt = new Date().toISOString()
+        const { data: claimed, error: claimError } = await supabase
+          .from("video_jobs")
+          .update({
+            status: "processing",
+            worker_id: workerId,
+            claimed_at: claimedAt,
+            heartbeat_at: claimedAt,
+            attempts: (candidate.attempts || 0) + 1,
+            updated_at: claimedAt,
+          })
+          .eq("id", candidate.id)
+          .in("status", CLAIMABLE_STATUSES)
+          .select()
+
+        if (claimError) {
+          throw new Error(`Failed to claim job ${candidate.id}: ${claimError.message}`)
+        }
+
+        if (claimed && claimed.length > 0) {
+          return claimed[0] as VideoJob
+        }
+      }
+
+      return null
+    },
+
+    async completeJob(job, outputs) {
+      const { error } = await supabase
+        .from("video_jobs")
+        .update({
+          status: "done",
+          output_url: outputs[0]?.url ?? null,
+          output_urls: outputs,
+          render_seconds: getRenderSeconds(outputs),
+          progress: 100,
+          error_message: null,
+          error_details: null,
+          next_attempt_at: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", job.id)
+        .eq("worker_id", job.worker_id)
+
+      if (error) {
+        throw new Error(`Failed to mark job ${job.id} as done: ${error.message}`)
+      }
+    },
+
+    async failJob(job, result, policy) {
+      const now = new Date()
+      const { status, nextAttemptAt, errorMessage } = getFailureOutcome(job, result, policy, now)
+
+      const { error } = await supabase
+        .from("video_jobs")
+        .update({
+          status,
+          next_attempt_at: nextAttemptAt,
+          progress: null,
+          stage: null,
+          error_message: errorMessage,
+          error_details: result.fieldErrors ?? null,
+          updated_at: now.toISOString(),
+        })
+        .eq("id", job.id)
+        .eq("worker_id", job.worker_id)
+
+      if (error) {
+        throw new Error(`Failed to record failure for job ${job.id}: ${error.message}`)
+      }
+
+      return status
+    },
+
+    // processJob removes anything it uploaded before the cancel took effect,
+    // so only the bookkeeping columns change
+    async cancelJob(job) {
+      const { error } = await supabase
+        .from("video_jobs")
+        .update({
+          status: "cancelled",
+          next_attempt_at: null,
+          progress: null,
+          stage: null,
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", job.id)
+        .eq("worker_id", job.worker_id)
+
+      if (error) {
+        throw new Error(`Failed to mark job ${job.id} as cancelled: ${error.message}`)
+      }
+    },
+
+    async releaseJob(job) {
+      const { error } = await supabase
+        .from("video_jobs")
+        .update({
+          status: "pending",
+          worker_id: null,
+          claimed_at: null,
+          heartbeat_at: null,
+          progress: null,
+          stage: null,
+          attempts: Math.max(0, job.attempts - 1),
+          updated_at: new Date().toISOString(),
+        })
+        .eq("id", job.id)
+        .eq("worker_id", job.worker_id)
+        .eq("status", "processing")
+
+      if (error) {
+        throw new Error(`Failed to release job ${job.id}: ${error.message}`)
+      }
+    },
+
+    async reserveRenderSeconds(job, seconds) {
+      const { error } = await supabase
+        .from("video_jobs")
+        .update({ render_seconds: seconds, updated_at: new Date().toISOString() })
+        .eq("id", job.id)
+        .eq("worker_id", job.worker_id)
+
+      if (error) {
+        throw retryable("db", `Failed to record render seconds: ${error.message}`)
+      }
+    },
+
+    async updateProgress(job, fields) {
+      const { error } = await supabase
+        .from("video_jobs")
+        .update({ ...fields, updated_at: new Date().toISOString() })
+        .eq("id", job.id)
+        .eq("worker_id", job.worker_id)
+
+      if (error) {
+        throw new Error(error.message)
+      }
+    },
+
+    async heartbeatJobs(workerId, jobIds) {
+      if (jobIds.length === 0) {
+        return
+      }
+
+      const { error } = await supabase
+        .from("video_jobs")
+        .update({ heartbeat_at: new Date().toISOString() })
+        .in("id", jobIds)
+        .eq("worker_id", workerId)
+        .eq("status", "processing")
+
+      if (error) {
+        throw new Error(`Failed to update heartbeat: ${error.message}`)
+      }
+    },
+
+    async fetchCancelRequests(workerId, jobIds) {
+      if (jobIds.length === 0) {
+        return []
+      }
+
+      const { data, error } = await supabase
+        .from("video_jobs")
+        .select("id")
+        .in("id", jobIds)
+        .eq("worker_id", workerId)
+        .eq("cancel_requested", true)
+
+      if (error) {
+        throw new Error(`Failed to check for cancelled jobs: ${error.message}`)
+      }
+
+      return (data || []).map((row) => row.id as string)
+    },
+
+    async reapStaleJobs(staleAfterMs, policy) {
+      const cutoff = new Date(Date.now() - staleAfterMs).toISOString()
+
+      const { data: stale, error } = await supabase
+        .from("video_jobs")
+        .select("id, attempts, worker_id, cancel_requested")
+        .eq("status", "processing")
+        .or(`heartbeat_at.is.null,heartbeat_at.lt.${cutoff}`)
+
+      if (error) {
+        throw new Error(`Failed to fetch stale jobs: ${error.message}`)
+      }
+
+      let reaped = 0
+      for (const job of stale || []) {
+        const now = new Date().toISOString()
+        const { data: updated, error: updateError } = await supabase
+          .from("video_jobs")
+          .update({
+            status: getStaleOutcome(job, policy),
+            worker_id: null,
+            heartbeat_at: null,
+            progress: null,
+            stage: null,
+            error_message: `Worker ${job.worker_id} stopped responding`,
+            updated_at: now,
+          })
+          .eq("id", job.id)
+          .eq("status", "processing")
+          .or(`heartbeat_at.is.null,heartbeat_at.lt.${cutoff}`)
+          .select("id")
+
+        if (updateError) {
+          throw new Error(`Failed to reap job ${job.id}: ${updateError.message}`)
+        }
+
+        if (updated && updated.length > 0) {
+          reaped++
+        }
+      }
+
+      return reaped
+    },
+
+    async getUserSettings(userId) {
+      const { data, error } = await supabase
+        .from("user_settings")
+        .select("*")
+        .eq("user_id", userId)
+        .maybeSingle()
+
+      if (error) {
+        throw retryable("db", `Failed to load user settings: ${error.message}`)
+      }
+      return (data as UserSettings | null) ?? null
+    },
+
+    async countPendingJobs() {
+      const { count, error } = await supabase
+        .from("video_jobs")
+        .select("id", { count: "exact", head: true })
+        .in("status", CLAIMABLE_STATUSES)
+
+      if (error) {
+        throw new Error(`Failed to count pending jobs: ${error.message}`)
+      }
+      return count ?? 0
+    },
+
+    async recordJobEvent(event) {
+      const { error } = await supabase.from("video_job_events").insert(event)
+
+      if (error) {
+        throw new Error(`Failed to record job event: ${error.message}`)
+      }
+    },
+
+    async recordWebhookDelivery(delivery) {
+      const { error } = await supabase.from("webhook_deliveries").insert(delivery)
+
+      if (error) {
+        throw new Error(`Failed to record webhook delivery: ${error.message}`)
+      }
+    },
+  }
+}
+
+// Supabase Storage ("videos" bucket) plus the videos table
+export function createSupabaseStorage(supabase: SupabaseClient): OutputStorage {
+  return {
+    async upload(filePath, storagePath, contentType) {
+      log.info("Uploading to Supabase Storage", { storage_path: storagePath })
+
+      // Stream from disk rather than loading the whole render into memory
+      const { size } = await stat(filePath)
+
+      const { error: uploadError } = await supabase.storage
+        .from(STORAGE_BUCKET)
+        .upload(storagePath, createReadStream(filePath), {
+          contentType,
+          upsert: true,
+          duplex: "half",
+          headers: { "content-length": String(size) },
+        })
+
+      if (uploadError) {
+        // Only client errors with a known status (e.g. file too large) are permanent
+        const status = "status" in uploadError && typeof uploadError.status === "number" ? uploadError.status : 0
+        const message = `Upload failed: ${uploadError.message}`
+        throw status >= 400 && !isRetryableStatus(status)
+          ? permanent("upload", message)
+          : retryable("upload", message)
+      }
+
+      // Get public URL
+      const { data: urlData } = supabase.storage
+        .from(STORAGE_BUCKET)
+        .getPublicUrl(storagePath)
+
+      log.info("Uploaded", { url: urlData.publicUrl })
+
+      return urlData.publicUrl
+    },
+
+    async saveVideo(record) {
+      const { error } = await supabase.from("videos").insert(record)
+
+      if (error) {
+        throw retryable("db", `Failed to save video: ${error.message}`)
+      }
+    },
+
+    async removeUploads(storagePaths) {
+      if (storagePaths.length === 0) {
+        return
+      }
+
+      const { error: rowsError } = await supabase.from("videos").delete().in("storage_path", storagePaths)
+      if (rowsError) {
+        throw retryable("db", `Failed to delete videos: ${rowsError.message}`)
+      }
+
+      const { error: storageError } = await supabase.storage.from(STORAGE_BUCKET).remove(storagePaths)
+      if (storageError) {
+        throw retryable("upload", `Failed to remove uploads: ${storageError.message}`)
+      }
+    },
+  }
+}
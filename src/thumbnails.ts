@@ -0,0 +1,66 @@
+import type { FFmpegCommand } from "./ffmpeg"
+import type { JobConfig, PosterFormat } from "./types"
+
+// Hover previews are small and cheap: short side in pixels, frame rate, bitrate cap
+const PREVIEW_SHORT_SIDE = 360
+const PREVIEW_FPS = 15
+const PREVIEW_MAX_BITRATE = "500k"
+const DEFAULT_PREVIEW_DURATION = 3
+
+// Keep seeks clear of the very end, where there may be no frame left to grab
+const END_MARGIN_SEC = 0.1
+
+export const POSTER_FILES: Record<PosterFormat, { extension: string; contentType: string }> = {
+  jpeg: { extension: "jpg", contentType: "image/jpeg" },
+  webp: { extension: "webp", contentType: "image/webp" },
+}
+
+function clampTime(time: number, duration: number): number {
+  return Math.max(0, Math.min(time, duration - END_MARGIN_SEC))
+}
+
+// Poster timestamp: the configured one, or the middle of the hook so the
+// frame shows the hook text after any entrance animation has finished
+export function resolvePosterTime(config: JobConfig | null | undefined, command: FFmpegCommand): number {
+  const time = config?.poster?.time ?? command.hookDuration / 2
+  return clampTime(time, command.duration)
+}
+
+// Single frame grabbed from the rendered output
+export function buildPosterArgs(videoPath: string, outputPath: string, time: number, format: PosterFormat): string[] {
+  const codecArgs = format === "webp"
+    ? ["-c:v", "libwebp", "-quality", "80"]
+    : ["-q:v", "3"]
+  return ["-y", "-ss", time.toFixed(3), "-i", videoPath, "-frames:v", "1", ...codecArgs, outputPath]
+}
+
+// Short, silent, low-bitrate MP4 the library UI loops on hover
+export function buildPreviewArgs(
+  videoPath: string,
+  outputPath: string,
+  config: JobConfig | null | undefined,
+  outputDuration: number
+): string[] {
+  const start = clampTime(config?.preview?.start ?? 0, outputDuration)
+  const duration = Math.min(config?.preview?.duration ?? DEFAULT_PREVIEW_DURATION, outputDuration - start)
+
+  // Scale the short side down, keeping the aspect ratio and even dimensions
+  const scale = `scale='if(gt(iw,ih),-2,${PREVIEW_SHORT_SIDE})':'if(gt(iw,ih),${PREVIEW_SHORT_SIDE},-2)'`
+
+  return [
+    "-y",
+    "-ss", start.toFixed(3),
+    "-t", duration.toFixed(3),
+    "-i", videoPath,
+    "-an",
+    "-vf", `${scale},fps=${PREVIEW_FPS}`,
+    "-c:v", "libx264",
+    "-preset", "veryfast",
+    "-crf", "32",
+    "-maxrate", PREVIEW_MAX_BITRATE,
+    "-bufsize", "1000k",
+    "-pix_fmt", "yuv420p",
+    "-movflags", "+faststart",
+    outputPath,
+  ]
+}
@@ -0,0 +1,37 @@
+import type { Segment, SegmentTrim, VideoJob } from "./types"
+
+// Resolve the clips to render, in order. Jobs without `config.segments` are
+// the classic two-segment timeline: intro_url (hook) followed by main_url (demo).
+export function resolveTimeline(job: VideoJob): Segment[] {
+  const config = job.config
+
+  if (config?.segments && config.segments.length > 0) {
+    return config.segments
+  }
+
+  return [
+    {
+      url: job.intro_url,
+      trim: config?.hookTrim,
+      effect: config?.hookEffect,
+      transition: config?.transition,
+    },
+    {
+      url: job.main_url,
+      trim: config?.demoTrim,
+      effect: config?.demoEffect,
+      subtitlesUrl: config?.demoSubtitlesUrl,
+    },
+  ]
+}
+
+// Get the trim window to apply, or null when the full clip is used
+export function getActiveTrim(segment: Segment): SegmentTrim | null {
+  return segment.trim && !segment.trim.useFullVideo ? segment.trim : null
+}
+
+// Length of a segment in the output, before transitions overlap it with its neighbors
+export function getSegmentDuration(segment: Segment, sourceDuration: number): number {
+  const trim = getActiveTrim(segment)
+  return trim ? trim.endTime - trim.startTime : sourceDuration
+}
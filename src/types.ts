@@ -1,4 +1,22 @@
-export type VideoJobStatus = "pending" | "processing" | "done" | "error"
+// "error" is a permanent failure, "failed" is the dead-letter state for jobs
+// that kept failing with retryable errors until they ran out of attempts,
+// "cancelled" is a job the user stopped
+export type VideoJobStatus = "pending" | "deferred" | "processing" | "done" | "error" | "failed" | "cancelled"
+
+// Processing stages that can fail
+export type JobStage = "config" | "download" | "subtitles" | "probe" | "ffmpeg" | "upload" | "db"
+
+// Stage shown in the app's progress bar while a job is processing
+export type JobProgressStage = "downloading" | "rendering" | "uploading"
+
+// Whether a failure is worth retrying
+export type ErrorClass = "retryable" | "permanent"
+
+// One problem found while validating a job, e.g. { field: "config.hookTrim.endTime", ... }
+export interface FieldError {
+  field: string
+  message: string
+}
 
 // Transition types between hook and demo
 export type TransitionType = "cut" | "crossfade" | "push-up" | "zoom-cut"
@@ -39,6 +57,37 @@ export interface DemoTrim {
   useFullVideo: boolean
 }
 
+// Trimming window within a timeline segment's source clip
+export interface SegmentTrim {
+  startTime: number
+  endTime: number
+  useFullVideo: boolean
+}
+
+// Effect applied to a timeline segment
+export interface SegmentEffect {
+  type: EffectType
+  intensity: "subtle" | "medium" | "strong"
+}
+
+// One clip in a multi-segment timeline (e.g. hook -> demo -> CTA outro)
+export interface Segment {
+  url: string
+  trim?: SegmentTrim
+  effect?: SegmentEffect
+  // Transition into the next segment (ignored on the last one)
+  transition?: Transition
+  // SRT or WebVTT file to burn in, timed against this segment's source clip
+  subtitlesUrl?: string
+}
+
+// One parsed subtitle cue, in seconds of its source clip
+export interface SubtitleCue {
+  start: number
+  end: number
+  text: string
+}
+
 // Text styling options
 export type FontSize = "small" | "medium" | "large"
 
@@ -48,9 +97,113 @@ export interface TextStyle {
   fontWeight?: "normal" | "bold"
 }
 
+// Entrance animation for a caption
+export type CaptionAnimation = "none" | "fade" | "pop" | "slide" | "typewriter"
+
+// Background box drawn behind each caption line
+export interface CaptionBox {
+  color: string
+  opacity: number // 0-1
+  padding: number // pixels at 1080px width
+}
+
+// Timed text item drawn over the rendered video
+export interface Caption {
+  text: string
+  // Seconds on the output timeline, or relative to `segment` when set
+  startTime: number
+  endTime: number
+  // Index into the timeline (0 = hook, 1 = first demo clip, ...)
+  segment?: number
+  style?: TextStyle
+  // Center of the text block, in percent of the frame
+  position?: { x: number; y: number }
+  animation?: CaptionAnimation
+  animationDuration?: number // milliseconds
+  box?: CaptionBox
+  // Wrap lines to this share of the frame width, in percent (default 90)
+  maxWidth?: number
+}
+
 // Audio source options
 export type AudioSource = "hook" | "demo" | "both" | "none"
 
+// Built-in output presets
+export type OutputPresetName = "tiktok" | "reels" | "shorts" | "instagram-feed" | "youtube"
+
+// One rendered variant of a job
+export interface OutputFormat {
+  // Used in the storage path and filename, e.g. "youtube"
+  name: string
+  width: number
+  height: number
+  fps: number
+  crf: number
+  // Optional bitrate cap in kbit/s
+  maxBitrate?: number
+}
+
+export type WatermarkCorner = "top-left" | "top-right" | "bottom-left" | "bottom-right"
+
+export interface Watermark {
+  // Image to overlay, e.g. a transparent PNG logo
+  url: string
+  // A corner, or the point (in % of the frame) the image is centered on.
+  // Default "bottom-right".
+  position?: WatermarkCorner | { x: number; y: number }
+  // Image width as a fraction of the frame width (default 0.15)
+  scale?: number
+  // 0-1 (default 1)
+  opacity?: number
+  // Which part of the timeline is branded, like audioSource (default "both")
+  appliesTo?: "hook" | "demo" | "both"
+}
+
+export interface MusicTrack {
+  // Audio file to use as a music bed
+  url: string
+  // Seconds into the track to start from (default 0)
+  startOffset?: number
+  // Gain applied to the track, 1 = unchanged (default 0.3)
+  volume?: number
+  // Fade lengths in seconds (default 0)
+  fadeIn?: number
+  fadeOut?: number
+  // Lower the music while hook/demo audio plays (default true)
+  duck?: boolean
+}
+
+export type PosterFormat = "jpeg" | "webp"
+
+export interface PosterOptions {
+  // Seconds into the output; defaults to the middle of the hook
+  time?: number
+  format?: PosterFormat // default "jpeg"
+}
+
+export interface PreviewOptions {
+  // Seconds into the output where the looping hover preview starts (default 0)
+  start?: number
+  // Length of the preview in seconds (default 3)
+  duration?: number
+}
+
+// One A/B variant of a batch job. Its fields replace the job's own for this
+// variant; everything else (sources, demo options, outputs, audio, music,
+// watermark) is shared by every variant. With `segments`, hookTrim, hookEffect
+// and transition apply to the first segment.
+export interface VariantConfig {
+  // Used in output names, storage paths and filenames (default "v1", "v2", ...)
+  name?: string
+  hook_text?: string | null
+  hookTrim?: HookTrim
+  hookEffect?: HookEffect
+  transition?: Transition
+  textStyle?: TextStyle
+  textPosition?: { x: number; y: number }
+  captions?: Caption[]
+}
+
 // Job configuration for video processing
 export interface JobConfig {
   hookTrim?: HookTrim
@@ -61,6 +214,32 @@ export interface JobConfig {
   textStyle?: TextStyle
   textPosition?: { x: number; y: number }
   audioSource?: AudioSource
+  // Timed captions drawn on top of the whole timeline (in addition to hook_text)
+  captions?: Caption[]
+  // Subtitle file for the demo in the classic hook + demo shape
+  // (timelines set `subtitlesUrl` per segment instead)
+  demoSubtitlesUrl?: string
+  // Burned-in subtitle styling; defaults to textStyle's color and weight at small size
+  subtitleStyle?: TextStyle
+  // Optional timeline. When present it replaces intro_url/main_url and the
+  // hook/demo trim, effect and transition options above.
+  segments?: Segment[]
+  // Variants to render, by preset name or custom format. Defaults to ["tiktok"].
+  // The first one is the job's primary output_url.
+  outputs?: (OutputPresetName | OutputFormat)[]
+  // Music bed mixed under the audioSource audio, looped or cut to the video length
+  music?: MusicTrack
+  // Logo overlay; falls back to the user's default watermark when unset.
+  // null turns branding off for this job.
+  watermark?: Watermark | null
+  // Poster image and hover preview generated for every output
+  poster?: PosterOptions
+  preview?: PreviewOptions
+  // POSTed a signed summary when the job finishes; overrides the user's webhook_url
+  webhookUrl?: string
+  // Makes this a batch job: every variant is rendered in every output format
+  // from one download of the sources
+  variants?: VariantConfig[]
 }
 
 export interface VideoJob {
@@ -71,15 +250,117 @@ export interface VideoJob {
   hook_text: string | null
   status: VideoJobStatus
   output_url: string | null
+  // Every rendered variant (output_url is the first one)
+  output_urls: RenderedOutput[] | null
   error_message: string | null
+  // Structured per-field validation errors, when that's why the job failed
+  error_details: FieldError[] | null
+  // Set when a worker claims the job
+  worker_id: string | null
+  claimed_at: string | null
+  // Refreshed periodically while a worker is rendering the job
+  heartbeat_at: string | null
+  // Overall progress (0-100) and current stage while processing
+  progress: number | null
+  stage: JobProgressStage | null
+  // Retry bookkeeping: attempts is incremented on every claim
+  attempts: number
+  next_attempt_at: string | null
+  // Set by the app when the user cancels; the worker stops and marks the job "cancelled"
+  cancel_requested: boolean
+  // Higher tiers are claimed first; within a tier users take turns
+  priority: number
+  // Seconds of output across all variants, counted toward the user's daily
+  // render quota. Reserved once rendering starts, final when the job is done.
+  render_seconds: number | null
   created_at: string
   updated_at: string
   // Extended config
   config?: JobConfig | null
 }
 
+// How a stage ended. "aborted" covers cancellation and worker shutdown.
+export type JobEventOutcome = "ok" | "error" | "aborted"
+
+// One stage of one attempt (the video_job_events table)
+export interface JobEvent {
+  job_id: string
+  worker_id: string | null
+  attempt: number
+  // "validate", "download", "probe", "render:<preset>", "thumbnails:<preset>", "upload".
+  // Batch jobs add "normalize:<preset>" and use "<variant>:<preset>" in render/thumbnails.
+  stage: string
+  outcome: JobEventOutcome
+  started_at: string
+  duration_ms: number
+  // Failure context, e.g. the full FFmpeg argv and the tail of its stderr
+  details: Record<string, unknown> | null
+}
+
+// Per-user defaults (the user_settings table)
+export interface UserSettings {
+  user_id: string
+  // Saved outside the worker, so it's validated like config.watermark before use
+  default_watermark: unknown
+  // Webhook for jobs that don't set config.webhookUrl
+  webhook_url?: string | null
+  // Per-user quota overrides (null: the worker defaults, 0: unlimited)
+  max_concurrent_jobs?: number | null
+  daily_render_minutes?: number | null
+}
+
+// One attempt to deliver a job's webhook (the webhook_deliveries table)
+export interface WebhookDelivery {
+  // Shared by every attempt to deliver the same notification
+  delivery_id: string
+  job_id: string
+  url: string
+  // The job status being reported
+  status: VideoJobStatus
+  attempt: number
+  // HTTP status of the response, or null when no response arrived
+  response_status: number | null
+  error: string | null
+  delivered: boolean
+  duration_ms: number
+  attempted_at: string
+}
+
+// Uploaded variant of a finished job
+export interface RenderedOutput {
+  name: string
+  // Variant name, for batch jobs
+  variant?: string
+  url: string
+  // Length in seconds
+  duration: number
+}
+
+// What ffprobe told us about an input file
+export interface MediaInfo {
+  duration: number // seconds
+  width: number
+  height: number
+  // Clockwise rotation needed to display upright (0, 90, 180 or 270)
+  rotation: number
+  fps: number
+  codec: string
+  hasAudio: boolean
+  // Variable frame rate (common in phone and screen recordings)
+  isVfr: boolean
+  sizeBytes: number
+}
+
 export interface ProcessResult {
   success: boolean
   outputUrl?: string
+  outputs?: RenderedOutput[]
   error?: string
+  errorClass?: ErrorClass
+  errorStage?: JobStage
+  // Per-field problems when the job config failed validation
+  fieldErrors?: FieldError[]
+  attempts?: number
+  // Length of the primary output in seconds
+  duration?: number
 }
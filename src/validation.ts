@@ -0,0 +1,539 @@
+import { getSourceUrlError } from "./download"
+import { ValidationError } from "./errors"
+import { log } from "./logger"
+import { getWebhookUrlError } from "./webhooks"
+import { OUTPUT_PRESETS } from "./presets"
+import { getActiveTrim, getSegmentDuration } from "./timeline"
+import { MAX_VARIANTS, VARIANT_FIELDS, getVariantName } from "./variants"
+import type { SegmentInput } from "./ffmpeg"
+import type { FieldError, VariantConfig, VideoJob, Watermark } from "./types"
+
+const TRANSITION_TYPES = ["cut", "crossfade", "push-up", "zoom-cut"]
+const EFFECT_TYPES = ["none", "zoom-in", "punch-zoom", "vertical-pan", "center-crop"]
+const INTENSITIES = ["subtle", "medium", "strong"]
+const FONT_SIZES = ["small", "medium", "large"]
+const FONT_WEIGHTS = ["normal", "bold"]
+const AUDIO_SOURCES = ["hook", "demo", "both", "none"]
+const CAPTION_ANIMATIONS = ["none", "fade", "pop", "slide", "typewriter"]
+const POSTER_FORMATS = ["jpeg", "webp"]
+const WATERMARK_CORNERS = ["top-left", "top-right", "bottom-left", "bottom-right"]
+const WATERMARK_TARGETS = ["hook", "demo", "both"]
+
+const MAX_SEGMENTS = 10
+const MAX_TRANSITION_MS = 5000
+const MAX_HOOK_TEXT_LENGTH = 500
+const MAX_CAPTIONS = 200
+
+// Trims that overshoot the clip by less than this are clamped, not rejected.
+// Editors in the app round to the frame, so tiny overshoots are expected.
+const TRIM_CLAMP_TOLERANCE_SEC = 0.5
+
+// Color names FFmpeg's color parser understands (the CSS/X11 set)
+const FFMPEG_COLOR_NAMES = new Set([
+  "aliceblue", "antiquewhite", "aqua", "aquamarine", "azure", "beige", "bisque", "black",
+  "blanchedalmond", "blue", "blueviolet", "brown", "burlywood", "cadetblue", "chartreuse",
+  "chocolate", "coral", "cornflowerblue", "cornsilk", "crimson", "cyan", "darkblue", "darkcyan",
+  "darkgoldenrod", "darkgray", "darkgreen", "darkkhaki", "darkmagenta", "darkolivegreen",
+  "darkorange", "darkorchid", "darkred", "darksalmon", "darkseagreen", "darkslateblue",
+  "darkslategray", "darkturquoise", "darkviolet", "deeppink", "deepskyblue", "dimgray",
+  "dodgerblue", "firebrick", "floralwhite", "forestgreen", "fuchsia", "gainsboro", "ghostwhite",
+  "gold", "goldenrod", "gray", "green", "greenyellow", "honeydew", "hotpink", "indianred",
+  "indigo", "ivory", "khaki", "lavender", "lavenderblush", "lawngreen", "lemonchiffon",
+  "lightblue", "lightcoral", "lightcyan", "lightgoldenrodyellow", "lightgreen", "lightgrey",
+  "lightpink", "lightsalmon", "lightseagreen", "lightskyblue", "lightslategray",
+  "lightsteelblue", "lightyellow", "lime", "limegreen", "linen", "magenta", "maroon",
+  "mediumaquamarine", "mediumblue", "mediumorchid", "mediumpurple", "mediumseagreen",
+  "mediumslateblue", "mediumspringgreen", "mediumturquoise", "mediumvioletred", "midnightblue",
+  "mintcream", "mistyrose", "moccasin", "navajowhite", "navy", "oldlace", "olive", "olivedrab",
+  "orange", "orangered", "orchid", "palegoldenrod", "palegreen", "paleturquoise",
+  "palevioletred", "papayawhip", "peachpuff", "peru", "pink", "plum", "powderblue", "purple",
+  "red", "rosybrown", "royalblue", "saddlebrown", "salmon", "sandybrown", "seagreen",
+  "seashell", "sienna", "silver", "skyblue", "slateblue", "slategray", "snow", "springgreen",
+  "steelblue", "tan", "teal", "thistle", "tomato", "turquoise", "violet", "wheat", "white",
+  "whitesmoke", "yellow", "yellowgreen",
+])
+
+// FFmpeg color syntax: a name or #RRGGBB[AA] / 0xRRGGBB[AA], optionally "@alpha"
+export function isValidColor(value: string): boolean {
+  const [color, alpha, ...rest] = value.split("@")
+  if (rest.length > 0) {
+    return false
+  }
+  if (alpha !== undefined && !/^(0(\.\d+)?|1(\.0+)?|0x[0-9a-f]{2})$/i.test(alpha)) {
+    return false
+  }
+  return FFMPEG_COLOR_NAMES.has(color.toLowerCase()) || /^(#|0x)([0-9a-f]{6}|[0-9a-f]{8})$/i.test(color)
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === "object" && value !== null && !Array.isArray(value)
+}
+
+function isFiniteNumber(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value)
+}
+
+// Collects errors while walking the config
+class Checker {
+  readonly errors: FieldError[] = []
+
+  fail(field: string, message: string): void {
+    this.errors.push({ field, message })
+  }
+
+  oneOf(field: string, value: unknown, allowed: string[]): void {
+    if (typeof value !== "string" || !allowed.includes(value)) {
+      this.fail(field, `must be one of ${allowed.map((v) => `"${v}"`).join(", ")}, got ${JSON.stringify(value)}`)
+    }
+  }
+
+  number(field: string, value: unknown, min: number, max: number): value is number {
+    if (!isFiniteNumber(value)) {
+      this.fail(field, `must be a number, got ${JSON.stringify(value)}`)
+      return false
+    }
+    if (value < min || value > max) {
+      this.fail(field, `must be between ${min} and ${max}, got ${value}`)
+      return false
+    }
+    return true
+  }
+
+  // A URL the worker will download, so it must also pass the source allowlist
+  sourceUrl(field: string, value: unknown): void {
+    if (typeof value !== "string") {
+      this.fail(field, `must be an http(s) URL`)
+      return
+    }
+    const reason = getSourceUrlError(value)
+    if (reason) {
+      this.fail(field, reason)
+    }
+  }
+
+  webhookUrl(field: string, value: unknown): void {
+    if (typeof value !== "string") {
+      this.fail(field, `must be an https URL`)
+      return
+    }
+    const reason = getWebhookUrlError(value)
+    if (reason) {
+      this.fail(field, reason)
+    }
+  }
+
+  object(field: string, value: unknown): value is Record<string, unknown> {
+    if (!isObject(value)) {
+      this.fail(field, `must be an object`)
+      return false
+    }
+    return true
+  }
+
+  array(field: string, value: unknown, maxLength: number): value is unknown[] {
+    if (!Array.isArray(value)) {
+      this.fail(field, `must be an array`)
+      return false
+    }
+    if (value.length > maxLength) {
+      this.fail(field, `must have at most ${maxLength} items, got ${value.length}`)
+      return false
+    }
+    return true
+  }
+
+  color(field: string, value: unknown): void {
+    if (typeof value !== "string" || !isValidColor(value)) {
+      this.fail(field, `must be a color name or #RRGGBB, got ${JSON.stringify(value)}`)
+    }
+  }
+
+  trim(field: string, value: unknown): void {
+    if (!this.object(field, value)) {
+      return
+    }
+    if (typeof value.useFullVideo !== "boolean") {
+      this.fail(`${field}.useFullVideo`, "must be a boolean")
+    }
+    if (value.useFullVideo) {
+      return
+    }
+    const startOk = this.number(`${field}.startTime`, value.startTime, 0, Infinity)
+    const endOk = this.number(`${field}.endTime`, value.endTime, 0, Infinity)
+    if (startOk && endOk && (value.endTime as number) <= (value.startTime as number)) {
+      this.fail(`${field}.endTime`, `must be greater than startTime (${value.startTime}), got ${value.endTime}`)
+    }
+  }
+
+  effect(field: string, value: unknown): void {
+    if (!this.object(field, value)) {
+      return
+    }
+    this.oneOf(`${field}.type`, value.type, EFFECT_TYPES)
+    this.oneOf(`${field}.intensity`, value.intensity, INTENSITIES)
+  }
+
+  transition(field: string, value: unknown): void {
+    if (!this.object(field, value)) {
+      return
+    }
+    this.oneOf(`${field}.type`, value.type, TRANSITION_TYPES)
+    this.number(`${field}.duration`, value.duration, 0, MAX_TRANSITION_MS)
+  }
+
+  textStyle(field: string, value: unknown): void {
+    if (!this.object(field, value)) {
+      return
+    }
+    this.oneOf(`${field}.fontSize`, value.fontSize, FONT_SIZES)
+    this.color(`${field}.color`, value.color)
+    if (value.fontWeight !== undefined) {
+      this.oneOf(`${field}.fontWeight`, value.fontWeight, FONT_WEIGHTS)
+    }
+  }
+
+  position(field: string, value: unknown): void {
+    if (!this.object(field, value)) {
+      return
+    }
+    this.number(`${field}.x`, value.x, 0, 100)
+    this.number(`${field}.y`, value.y, 0, 100)
+  }
+
+  hookText(field: string, value: unknown): void {
+    if (value !== null && typeof value !== "string") {
+      this.fail(field, "must be a string or null")
+    } else if (value && value.length > MAX_HOOK_TEXT_LENGTH) {
+      this.fail(field, `must be at most ${MAX_HOOK_TEXT_LENGTH} characters, got ${value.length}`)
+    }
+  }
+
+  // `segmentCount` bounds the segment index a caption can be timed against
+  captions(field: string, value: unknown, segmentCount: number): void {
+    if (!this.array(field, value, MAX_CAPTIONS)) {
+      return
+    }
+    value.forEach((caption, i) => {
+      const itemField = `${field}[${i}]`
+      if (!this.object(itemField, caption)) {
+        return
+      }
+      if (typeof caption.text !== "string" || !caption.text.trim()) {
+        this.fail(`${itemField}.text`, "must be a non-empty string")
+      }
+      const startOk = this.number(`${itemField}.startTime`, caption.startTime, 0, Infinity)
+      const endOk = this.number(`${itemField}.endTime`, caption.endTime, 0, Infinity)
+      if (startOk && endOk && (caption.endTime as number) <= (caption.startTime as number)) {
+        this.fail(`${itemField}.endTime`, `must be greater than startTime (${caption.startTime}), got ${caption.endTime}`)
+      }
+      if (caption.segment !== undefined && (!Number.isInteger(caption.segment)
+        || (caption.segment as number) < 0 || (caption.segment as number) >= segmentCount)) {
+        this.fail(`${itemField}.segment`, `must be a segment index from 0 to ${segmentCount - 1}, got ${JSON.stringify(caption.segment)}`)
+      }
+      if (caption.style !== undefined) this.textStyle(`${itemField}.style`, caption.style)
+      if (caption.position !== undefined) this.position(`${itemField}.position`, caption.position)
+      if (caption.animation !== undefined) this.oneOf(`${itemField}.animation`, caption.animation, CAPTION_ANIMATIONS)
+      if (caption.animationDuration !== undefined) this.number(`${itemField}.animationDuration`, caption.animationDuration, 0, 10000)
+      if (caption.maxWidth !== undefined) this.number(`${itemField}.maxWidth`, caption.maxWidth, 10, 100)
+      if (caption.box !== undefined && this.object(`${itemField}.box`, caption.box)) {
+        this.color(`${itemField}.box.color`, caption.box.color)
+        this.number(`${itemField}.box.opacity`, caption.box.opacity, 0, 1)
+        this.number(`${itemField}.box.padding`, caption.box.padding, 0, 200)
+      }
+    })
+  }
+
+  music(field: string, value: unknown): void {
+    if (!this.object(field, value)) {
+      return
+    }
+    this.sourceUrl(`${field}.url`, value.url)
+    if (value.startOffset !== undefined) this.number(`${field}.startOffset`, value.startOffset, 0, Infinity)
+    if (value.volume !== undefined) this.number(`${field}.volume`, value.volume, 0, 2)
+    if (value.fadeIn !== undefined) this.number(`${field}.fadeIn`, value.fadeIn, 0, 30)
+    if (value.fadeOut !== undefined) this.number(`${field}.fadeOut`, value.fadeOut, 0, 30)
+    if (value.duck !== undefined && typeof value.duck !== "boolean") {
+      this.fail(`${field}.duck`, "must be a boolean")
+    }
+  }
+
+  watermark(field: string, value: unknown): void {
+    if (!this.object(field, value)) {
+      return
+    }
+    this.sourceUrl(`${field}.url`, value.url)
+    if (typeof value.position === "string") {
+      this.oneOf(`${field}.position`, value.position, WATERMARK_CORNERS)
+    } else if (value.position !== undefined) {
+      this.position(`${field}.position`, value.position)
+    }
+    if (value.scale !== undefined) this.number(`${field}.scale`, value.scale, 0.01, 1)
+    if (value.opacity !== undefined) this.number(`${field}.opacity`, value.opacity, 0, 1)
+    if (value.appliesTo !== undefined) this.oneOf(`${field}.appliesTo`, value.appliesTo, WATERMARK_TARGETS)
+  }
+}
+
+// Where a timeline segment's options live in the config, so errors point at
+// the field the user actually set (hookTrim vs segments[0].trim)
+function segmentField(job: VideoJob, index: number, key: "trim" | "effect" | "transition"): string {
+  if (job.config?.segments && job.config.segments.length > 0) {
+    return `config.segments[${index}].${key}`
+  }
+  const legacy = index === 0
+    ? { trim: "hookTrim", effect: "hookEffect", transition: "transition" }
+    : { trim: "demoTrim", effect: "demoEffect", transition: "transition" }
+  return `config.${legacy[key]}`
+}
+
+// First pass, before anything is downloaded: check types, enums and ranges
+// of everything in the job row. Throws a ValidationError listing every problem.
+export function validateJob(job: VideoJob): void {
+  const check = new Checker()
+  const config: unknown = job.config
+
+  check.hookText("hook_text", job.hook_text)
+
+  if (config !== null && config !== undefined && !isObject(config)) {
+    check.fail("config", "must be an object or null")
+    throw new ValidationError(check.errors)
+  }
+
+  const hasSegments = isObject(config) && config.segments !== undefined
+
+  if (!hasSegments) {
+    check.sourceUrl("intro_url", job.intro_url)
+    check.sourceUrl("main_url", job.main_url)
+  }
+
+  if (isObject(config)) {
+    if (config.hookTrim !== undefined) check.trim("config.hookTrim", config.hookTrim)
+    if (config.demoTrim !== undefined) check.trim("config.demoTrim", config.demoTrim)
+    if (config.transition !== undefined) check.transition("config.transition", config.transition)
+    if (config.hookEffect !== undefined) check.effect("config.hookEffect", config.hookEffect)
+    if (config.demoEffect !== undefined) check.effect("config.demoEffect", config.demoEffect)
+    if (config.textStyle !== undefined) check.textStyle("config.textStyle", config.textStyle)
+    if (config.subtitleStyle !== undefined) check.textStyle("config.subtitleStyle", config.subtitleStyle)
+    if (config.textPosition !== undefined) check.position("config.textPosition", config.textPosition)
+    if (config.demoSubtitlesUrl !== undefined) check.sourceUrl("config.demoSubtitlesUrl", config.demoSubtitlesUrl)
+    if (config.audioSource !== undefined) check.oneOf("config.audioSource", config.audioSource, AUDIO_SOURCES)
+
+    // A trimmed hook must be longer than the transition out of it
+    if (!hasSegments && isObject(config.hookTrim) && !config.hookTrim.useFullVideo && isObject(config.transition)) {
+      const { startTime, endTime } = config.hookTrim
+      const { duration } = config.transition
+      if (isFiniteNumber(startTime) && isFiniteNumber(endTime) && endTime > startTime && isFiniteNumber(duration)
+        && config.transition.type !== "cut" && duration / 1000 >= endTime - startTime) {
+        check.fail("config.transition.duration", `${duration}ms is not shorter than the trimmed hook (${endTime - startTime}s)`)
+      }
+    }
+
+    let segmentCount = 2
+    if (hasSegments && check.array("config.segments", config.segments, MAX_SEGMENTS)) {
+      segmentCount = config.segments.length
+      if (segmentCount === 0) {
+        check.fail("config.segments", "must have at least one segment")
+      }
+      config.segments.forEach((segment, i) => {
+        const field = `config.segments[${i}]`
+        if (!check.object(field, segment)) {
+          return
+        }
+        check.sourceUrl(`${field}.url`, segment.url)
+        if (segment.trim !== undefined) check.trim(`${field}.trim`, segment.trim)
+        if (segment.effect !== undefined) check.effect(`${field}.effect`, segment.effect)
+        if (segment.transition !== undefined) check.transition(`${field}.transition`, segment.transition)
+        if (segment.subtitlesUrl !== undefined) check.sourceUrl(`${field}.subtitlesUrl`, segment.subtitlesUrl)
+      })
+    }
+
+    if (config.captions !== undefined) check.captions("config.captions", config.captions, segmentCount)
+
+    if (config.outputs !== undefined && check.array("config.outputs", config.outputs, Object.keys(OUTPUT_PRESETS).length * 2)) {
+      const names = new Set<string>()
+      config.outputs.forEach((output, i) => {
+        const field = `config.outputs[${i}]`
+        let name: unknown = output
+        if (typeof output === "string") {
+          check.oneOf(field, output, Object.keys(OUTPUT_PRESETS))
+        } else if (check.object(field, output)) {
+          name = output.name
+          if (typeof output.name !== "string" || !/^[a-z0-9-]{1,32}$/.test(output.name)) {
+            check.fail(`${field}.name`, "must be 1-32 lowercase letters, digits or dashes")
+          }
+          // libx264 with yuv420p needs even dimensions
+          for (const key of ["width", "height"]) {
+            if (check.number(`${field}.${key}`, output[key], 16, 4096) && (output[key] as number) % 2 !== 0) {
+              check.fail(`${field}.${key}`, `must be even, got ${output[key]}`)
+            }
+          }
+          check.number(`${field}.fps`, output.fps, 1, 60)
+          check.number(`${field}.crf`, output.crf, 0, 51)
+          if (output.maxBitrate !== undefined) check.number(`${field}.maxBitrate`, output.maxBitrate, 100, 100000)
+        }
+        if (typeof name === "string") {
+          if (names.has(name)) {
+            check.fail(field, `duplicate output name "${name}"`)
+          }
+          names.add(name)
+        }
+      })
+    }
+
+    if (config.music !== undefined) check.music("config.music", config.music)
+    if (config.watermark !== undefined && config.watermark !== null) check.watermark("config.watermark", config.watermark)
+    if (config.webhookUrl !== undefined) check.webhookUrl("config.webhookUrl", config.webhookUrl)
+
+    if (config.variants !== undefined && check.array("config.variants", config.variants, MAX_VARIANTS)) {
+      if (config.variants.length === 0) {
+        check.fail("config.variants", "must have at least one variant")
+      }
+      const names = new Set<string>()
+      config.variants.forEach((variant, i) => {
+        const field = `config.variants[${i}]`
+        if (!check.object(field, variant)) {
+          return
+        }
+        // Anything else would change the shared demo
+        for (const key of Object.keys(variant)) {
+          if (!(VARIANT_FIELDS as string[]).includes(key)) {
+            check.fail(`${field}.${key}`, `can't be set per variant, only ${VARIANT_FIELDS.join(", ")}`)
+          }
+        }
+        if (variant.name !== undefined && (typeof variant.name !== "string" || !/^[a-z0-9-]{1,32}$/.test(variant.name))) {
+          check.fail(`${field}.name`, "must be 1-32 lowercase letters, digits or dashes")
+        }
+        const name = getVariantName(variant as VariantConfig, i)
+        if (names.has(name)) {
+          check.fail(`${field}.name`, `duplicate variant name "${name}"`)
+        }
+        names.add(name)
+
+        if (variant.hook_text !== undefined) check.hookText(`${field}.hook_text`, variant.hook_text)
+        if (variant.hookTrim !== undefined) check.trim(`${field}.hookTrim`, variant.hookTrim)
+        if (variant.hookEffect !== undefined) check.effect(`${field}.hookEffect`, variant.hookEffect)
+        if (variant.transition !== undefined) check.transition(`${field}.transition`, variant.transition)
+        if (variant.textStyle !== undefined) check.textStyle(`${field}.textStyle`, variant.textStyle)
+        if (variant.textPosition !== undefined) check.position(`${field}.textPosition`, variant.textPosition)
+        if (variant.captions !== undefined) check.captions(`${field}.captions`, variant.captions, segmentCount)
+      })
+    }
+
+    if (config.poster !== undefined && check.object("config.poster", config.poster)) {
+      if (config.poster.time !== undefined) check.number("config.poster.time", config.poster.time, 0, Infinity)
+      if (config.poster.format !== undefined) check.oneOf("config.poster.format", config.poster.format, POSTER_FORMATS)
+    }
+
+    if (config.preview !== undefined && check.object("config.preview", config.preview)) {
+      if (config.preview.start !== undefined) check.number("config.preview.start", config.preview.start, 0, Infinity)
+      if (config.preview.duration !== undefined) check.number("config.preview.duration", config.preview.duration, 0.5, 10)
+    }
+  }
+
+  if (check.errors.length > 0) {
+    throw new ValidationError(check.errors)
+  }
+}
+
+// A user's default watermark from user_settings, checked like config.watermark
+// since it was saved outside this worker
+export function validateDefaultWatermark(value: unknown): Watermark {
+  const check = new Checker()
+  check.watermark("user_settings.default_watermark", value)
+  if (check.errors.length > 0) {
+    throw new ValidationError(check.errors)
+  }
+  return value as Watermark
+}
+
+// Where a media check failure for segment `index` points, e.g. "config.hookTrim"
+type SegmentFieldFor = (index: number, key: "trim" | "effect" | "transition") => string
+
+// Check trims and transitions against the clip lengths, returning the inputs
+// with slightly overshooting trims clamped
+function checkAgainstMedia(check: Checker, inputs: SegmentInput[], fieldFor: SegmentFieldFor): SegmentInput[] {
+  const clamped = inputs.map((input, i) => {
+    const trim = getActiveTrim(input.segment)
+    if (!trim) {
+      return input
+    }
+
+    const field = fieldFor(i, "trim")
+    const clipLength = input.media.duration
+
+    if (trim.startTime >= clipLength) {
+      check.fail(`${field}.startTime`, `${trim.startTime}s is past the end of the clip (${clipLength.toFixed(2)}s)`)
+      return input
+    }
+    if (trim.endTime <= clipLength) {
+      return input
+    }
+    if (trim.endTime - clipLength > TRIM_CLAMP_TOLERANCE_SEC) {
+      check.fail(`${field}.endTime`, `${trim.endTime}s is past the end of the clip (${clipLength.toFixed(2)}s)`)
+      return input
+    }
+
+    log.info("Clamping trim end to clip length", { field: `${field}.endTime`, end_time: trim.endTime, clip_length: clipLength })
+    return { ...input, segment: { ...input.segment, trim: { ...trim, endTime: clipLength } } }
+  })
+
+  // Each transition must be shorter than both segments it joins
+  clamped.forEach((input, i) => {
+    const transition = input.segment.transition
+    const next = clamped[i + 1]
+    if (!next || !transition || transition.type === "cut" || transition.duration <= 0) {
+      return
+    }
+    const shorter = Math.min(
+      getSegmentDuration(input.segment, input.media.duration),
+      getSegmentDuration(next.segment, next.media.duration)
+    )
+    if (transition.duration / 1000 >= shorter) {
+      check.fail(
+        `${fieldFor(i, "transition")}.duration`,
+        `${transition.duration}ms is not shorter than the segments it joins (${shorter.toFixed(2)}s)`
+      )
+    }
+  })
+
+  return clamped
+}
+
+// Second pass, after probing: check trims and transitions against the real
+// clip lengths. Trims that overshoot the clip slightly are clamped to its end;
+// anything else that doesn't fit is rejected. Returns the (possibly clamped)
+// inputs to render.
+export function validateAgainstMedia(job: VideoJob, inputs: SegmentInput[]): SegmentInput[] {
+  const check = new Checker()
+  const clamped = checkAgainstMedia(check, inputs, (index, key) => segmentField(job, index, key))
+
+  if (check.errors.length > 0) {
+    throw new ValidationError(check.errors)
+  }
+
+  return clamped
+}
+
+// The same pass for each variant of a batch job, over the job's probed
+// inputs with the variant's hook options applied. Problems with an option the
+// variant sets point at config.variants[i]. Returns each variant's inputs.
+export function validateVariantsAgainstMedia(
+  job: VideoJob,
+  variants: { variant: VariantConfig; inputs: SegmentInput[] }[]
+): SegmentInput[][] {
+  const check = new Checker()
+  const variantKeys = { trim: "hookTrim", effect: "hookEffect", transition: "transition" } as const
+
+  const clamped = variants.map(({ variant, inputs }, n) =>
+    checkAgainstMedia(check, inputs, (index, key) =>
+      index === 0 && variant[variantKeys[key]] !== undefined
+        ? `config.variants[${n}].${variantKeys[key]}`
+        : segmentField(job, index, key)
+    )
+  )
+
+  if (check.errors.length > 0) {
+    throw new ValidationError(check.errors)
+  }
+
+  return clamped
+}
@@ -0,0 +1,109 @@
+import { buildNormalizeArgs } from "./ffmpeg"
+import type { SegmentInput } from "./ffmpeg"
+import { getActiveTrim, getSegmentDuration } from "./timeline"
+import type { JobConfig, OutputFormat, VariantConfig, VideoJob } from "./types"
+
+export const MAX_VARIANTS = 10
+
+// Everything a variant may set. The rest of the config is shared, which is
+// what lets the demo be prepared once for the whole batch.
+export const VARIANT_FIELDS: (keyof VariantConfig)[] = [
+  "name", "hook_text", "hookTrim", "hookEffect", "transition", "textStyle", "textPosition", "captions",
+]
+
+// A variant with its overrides applied to the job
+export interface ResolvedVariant {
+  name: string
+  variant: VariantConfig
+  job: VideoJob
+}
+
+export function getVariantName(variant: VariantConfig, index: number): string {
+  return variant.name ?? `v${index + 1}`
+}
+
+// The job as this variant renders it. With `segments`, the hook options go
+// onto the first segment, since the classic ones are ignored there.
+export function applyVariant(job: VideoJob, variant: VariantConfig): VideoJob {
+  const config: JobConfig = {
+    ...job.config,
+    textStyle: variant.textStyle ?? job.config?.textStyle,
+    textPosition: variant.textPosition ?? job.config?.textPosition,
+    captions: variant.captions ?? job.config?.captions,
+    variants: undefined,
+  }
+
+  if (config.segments && config.segments.length > 0) {
+    const [hook, ...demo] = config.segments
+    config.segments = [
+      {
+        ...hook,
+        trim: variant.hookTrim ?? hook.trim,
+        effect: variant.hookEffect ?? hook.effect,
+        transition: variant.transition ?? hook.transition,
+      },
+      ...demo,
+    ]
+  } else {
+    config.hookTrim = variant.hookTrim ?? config.hookTrim
+    config.hookEffect = variant.hookEffect ?? config.hookEffect
+    config.transition = variant.transition ?? config.transition
+  }
+
+  return { ...job, hook_text: variant.hook_text !== undefined ? variant.hook_text : job.hook_text, config }
+}
+
+// The variants of a batch job, or null for a regular job
+export function resolveVariants(job: VideoJob): ResolvedVariant[] | null {
+  const variants = job.config?.variants
+  if (!variants || variants.length === 0) {
+    return null
+  }
+  return variants.map((variant, i) => ({
+    name: getVariantName(variant, i),
+    variant,
+    job: applyVariant(job, variant),
+  }))
+}
+
+// Demo segments rendered once per output format and shared by every variant
+export interface SharedSegments {
+  // FFmpeg commands that write the intermediate files, one per demo segment
+  commands: { args: string[]; duration: number }[]
+  // Temp files the commands write
+  paths: string[]
+  // The demo segments as the variants render them once the commands have run
+  inputs: SegmentInput[]
+}
+
+// Plan the intermediates for everything after the hook. They come out
+// trimmed, upright and at the format's size and frame rate with their effect
+// applied, so the variant renders only decode and re-encode them.
+export function planSharedSegments(inputs: SegmentInput[], format: OutputFormat, pathPrefix: string): SharedSegments {
+  const demo = inputs.slice(1)
+  const paths = demo.map((_, i) => `${pathPrefix}-shared-${format.name}-${i + 1}.mkv`)
+  const commands = demo.map((input, i) => buildNormalizeArgs(input, paths[i], format))
+
+  const normalized = demo.map((input, i): SegmentInput => {
+    const trimStart = getActiveTrim(input.segment)?.startTime ?? 0
+    return {
+      path: paths[i],
+      // The transition to the next segment still happens in the variant render
+      segment: { url: input.segment.url, transition: input.segment.transition },
+      media: {
+        ...input.media,
+        duration: getSegmentDuration(input.segment, input.media.duration),
+        width: format.width,
+        height: format.height,
+        rotation: 0,
+        fps: format.fps,
+        codec: "h264",
+        isVfr: false,
+      },
+      // Cues are timed against the source clip, which now starts at the trim
+      subtitles: input.subtitles?.map((cue) => ({ ...cue, start: cue.start - trimStart, end: cue.end - trimStart })),
+    }
+  })
+
+  return { commands, paths, inputs: normalized }
+}
@@ -0,0 +1,88 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { log } from "./logger"
+
+// "poll" claims on a timer only. "realtime" also listens for new and
+// re-queued jobs over Supabase Realtime, and polling becomes a slow sweep.
+export type WakeupMode = "poll" | "realtime"
+
+export function parseWakeupMode(value: string | undefined): WakeupMode {
+  if (!value || value === "poll") {
+    return "poll"
+  }
+  if (value === "realtime") {
+    return value
+  }
+  throw new Error(`Invalid WAKEUP_MODE "${value}", expected "poll" or "realtime"`)
+}
+
+// Call `onWakeup` whenever a job may have become claimable: a row was inserted
+// into video_jobs or put back to "pending" (released or scheduled for retry).
+// A retry isn't claimable until its next_attempt_at, so the wakeup is held
+// back until then, on a timer for the earliest one still due. Also fires once the
+// subscription is (re)established, since events sent while disconnected are
+// lost. Returns a function that unsubscribes.
+export function subscribeToJobWakeups(
+  supabase: SupabaseClient,
+  onWakeup: () => void
+): () => Promise<void> {
+  // next_attempt_at of every retry we've heard of that isn't due yet
+  const retryTimes: number[] = []
+  let retryTimer: NodeJS.Timeout | null = null
+
+  function armRetryTimer(): void {
+    if (retryTimer) {
+      clearTimeout(retryTimer)
+      retryTimer = null
+    }
+    if (retryTimes.length === 0) {
+      return
+    }
+    retryTimer = setTimeout(() => {
+      retryTimer = null
+      const now = Date.now()
+      while (retryTimes.length > 0 && retryTimes[0] <= now) {
+        retryTimes.shift()
+      }
+      armRetryTimer()
+      onWakeup()
+    }, Math.max(0, retryTimes[0] - Date.now()))
+  }
+
+  function scheduleWakeup(at: number): void {
+    const index = retryTimes.findIndex((time) => time > at)
+    retryTimes.splice(index === -1 ? retryTimes.length : index, 0, at)
+    if (retryTimes[0] === at) {
+      armRetryTimer()
+    }
+  }
+
+  function onChange(payload: { new: { next_attempt_at?: string | null } }): void {
+    const nextAttemptAt = payload.new.next_attempt_at ? Date.parse(payload.new.next_attempt_at) : NaN
+    if (nextAttemptAt > Date.now()) {
+      scheduleWakeup(nextAttemptAt)
+      return
+    }
+    onWakeup()
+  }
+
+  const channel = supabase
+    .channel("video-job-wakeups")
+    .on("postgres_changes", { event: "INSERT", schema: "public", table: "video_jobs" }, onChange)
+    .on("postgres_changes", { event: "UPDATE", schema: "public", table: "video_jobs", filter: "status=eq.pending" }, onChange)
+    .subscribe((status, err) => {
+      if (status === "SUBSCRIBED") {
+        log.info("Listening for new jobs over Realtime")
+        onWakeup()
+      } else if (status === "CHANNEL_ERROR" || status === "TIMED_OUT") {
+        // The client retries on its own; the fallback sweep covers the gap
+        log.error("Realtime subscription failed", { status, error: err?.message ?? "no details" })
+      }
+    })
+
+  return async () => {
+    if (retryTimer) {
+      clearTimeout(retryTimer)
+    }
+    await supabase.removeChannel(channel)
+  }
+}
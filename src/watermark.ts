@@ -0,0 +1,62 @@
+import type { JobQueue } from "./queue"
+import { validateDefaultWatermark } from "./validation"
+import type { OutputFormat, VideoJob, Watermark } from "./types"
+
+const DEFAULT_SCALE = 0.15
+// Gap between a corner watermark and the frame edge, as a fraction of the short side
+const CORNER_MARGIN = 0.04
+
+// The watermark to apply: the job's own, or else the user's default from
+// their settings. A job can set `watermark: null` to skip the default.
+export async function resolveWatermark(queue: Pick<JobQueue, "getUserSettings">, job: VideoJob): Promise<Watermark | null> {
+  if (job.config?.watermark !== undefined) {
+    return job.config.watermark
+  }
+
+  const settings = await queue.getUserSettings(job.user_id)
+  if (!settings?.default_watermark) {
+    return null
+  }
+  return validateDefaultWatermark(settings.default_watermark)
+}
+
+// Overlay position in overlay-filter terms (W/H: frame, w/h: watermark)
+function getOverlayPosition(watermark: Watermark, format: OutputFormat): { x: string; y: string } {
+  const position = watermark.position ?? "bottom-right"
+  if (typeof position !== "string") {
+    return { x: `W*${position.x}/100-w/2`, y: `H*${position.y}/100-h/2` }
+  }
+  const margin = Math.round(Math.min(format.width, format.height) * CORNER_MARGIN)
+  return {
+    x: position.endsWith("left") ? String(margin) : `W-w-${margin}`,
+    y: position.startsWith("top") ? String(margin) : `H-h-${margin}`,
+  }
+}
+
+// Scale the watermark image (input `inputIndex`) relative to the frame, apply
+// its opacity and overlay it on `inLabel`. "hook" is the first segment,
+// which is on screen on its own for `hookDuration` seconds.
+export function buildWatermarkFilters(
+  inputIndex: number,
+  watermark: Watermark,
+  format: OutputFormat,
+  hookDuration: number,
+  inLabel: string,
+  outLabel: string
+): string[] {
+  const width = Math.max(2, Math.round(format.width * (watermark.scale ?? DEFAULT_SCALE)))
+  const opacity = watermark.opacity ?? 1
+  const { x, y } = getOverlayPosition(watermark, format)
+
+  let enable = ""
+  if (watermark.appliesTo === "hook") {
+    enable = `:enable='lt(t,${hookDuration})'`
+  } else if (watermark.appliesTo === "demo") {
+    enable = `:enable='gte(t,${hookDuration})'`
+  }
+
+  return [
+    `[${inputIndex}:v]scale=${width}:-1,format=rgba,colorchannelmixer=aa=${opacity}[wm]`,
+    `[${inLabel}][wm]overlay=x=${x}:y=${y}${enable}[${outLabel}]`,
+  ]
+}
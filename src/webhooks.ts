@@ -0,0 +1,208 @@
+import { createHmac, randomUUID } from "crypto"
+import { isRetryableStatus } from "./errors"
+import { log } from "./logger"
+import { webhookDeliveries } from "./metrics"
+import type { JobQueue } from "./queue"
+import type { ProcessResult, RenderedOutput, VideoJob, VideoJobStatus, WebhookDelivery } from "./types"
+
+// Shared secret the receiver uses to check X-Hookly-Signature
+const WEBHOOK_SECRET = process.env.WEBHOOK_SECRET || ""
+const WEBHOOK_TIMEOUT_MS = parseInt(process.env.WEBHOOK_TIMEOUT_MS || "10000", 10)
+const WEBHOOK_MAX_ATTEMPTS = parseInt(process.env.WEBHOOK_MAX_ATTEMPTS || "5", 10)
+const WEBHOOK_RETRY_BASE_DELAY_MS = parseInt(process.env.WEBHOOK_RETRY_BASE_DELAY_MS || "5000", 10)
+
+// Statuses a job doesn't leave again, so each is reported exactly once
+const FINAL_STATUSES: VideoJobStatus[] = ["done", "error", "failed", "cancelled"]
+
+export interface WebhookPayload {
+  event: "video_job.finished"
+  job_id: string
+  user_id: string
+  status: VideoJobStatus
+  output_url: string | null
+  output_urls: RenderedOutput[]
+  // Length of the primary output in seconds
+  duration: number | null
+  error: string | null
+  finished_at: string
+}
+
+// Why the worker won't POST to `url`, or null if it will. Only https, so
+// payloads can't be read in transit and plain-http internal services are out of reach.
+export function getWebhookUrlError(url: string): string | null {
+  let parsed: URL
+  try {
+    parsed = new URL(url)
+  } catch {
+    return "is not a valid URL"
+  }
+  if (parsed.protocol !== "https:") {
+    return "must be an https URL"
+  }
+  if (parsed.username || parsed.password) {
+    return "must not contain credentials"
+  }
+  return null
+}
+
+// Hex HMAC-SHA256 of "<timestamp>.<body>". Including the timestamp lets the
+// receiver reject replays of old deliveries.
+export function signWebhookPayload(body: string, timestamp: number, secret: string): string {
+  return createHmac("sha256", secret).update(`${timestamp}.${body}`).digest("hex")
+}
+
+export function buildWebhookPayload(job: VideoJob, status: VideoJobStatus, result: ProcessResult | null): WebhookPayload {
+  return {
+    event: "video_job.finished",
+    job_id: job.id,
+    user_id: job.user_id,
+    status,
+    output_url: status === "done" ? result?.outputUrl ?? null : null,
+    output_urls: status === "done" ? result?.outputs ?? [] : [],
+    duration: status === "done" ? result?.duration ?? null : null,
+    error: status === "error" || status === "failed" ? result?.error ?? null : null,
+    finished_at: new Date().toISOString(),
+  }
+}
+
+// The job's webhook, else the user's. Checked again here because a job can
+// finish (e.g. cancelled, or rejected by validation) without being validated.
+async function resolveWebhookUrl(queue: Pick<JobQueue, "getUserSettings">, job: VideoJob): Promise<string | null> {
+  let field = "config.webhookUrl"
+  let url: unknown = job.config?.webhookUrl
+  if (url === undefined) {
+    const settings = await queue.getUserSettings(job.user_id)
+    field = "user_settings.webhook_url"
+    url = settings?.webhook_url
+  }
+  if (!url) {
+    return null
+  }
+
+  const reason = typeof url === "string" ? getWebhookUrlError(url) : "must be an https URL"
+  if (reason) {
+    log.warn(`Ignoring invalid ${field}`, { error: reason })
+    return null
+  }
+  return url as string
+}
+
+// One POST. Redirects aren't followed: the receiver must answer at the URL it gave.
+async function postWebhook(url: string, body: string, deliveryId: string): Promise<{ status: number | null; error: string | null }> {
+  const timestamp = Math.floor(Date.now() / 1000)
+  try {
+    const response = await fetch(url, {
+      method: "POST",
+      headers: {
+        "content-type": "application/json",
+        "user-agent": "hookly-worker",
+        "x-hookly-delivery": deliveryId,
+        "x-hookly-signature": `t=${timestamp},v1=${signWebhookPayload(body, timestamp, WEBHOOK_SECRET)}`,
+      },
+      body,
+      redirect: "manual",
+      signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS),
+    })
+    await response.body?.cancel()
+    return { status: response.status, error: response.ok ? null : `${response.status} ${response.statusText}` }
+  } catch (err) {
+    return { status: null, error: err instanceof Error ? err.message : "Unknown error" }
+  }
+}
+
+// POST the payload until the receiver answers 2xx, backing off between
+// attempts. Network errors, timeouts, 408, 429 and 5xx are retried; any other
+// answer (a redirect, a client error) won't change on retry. Every attempt is
+// recorded.
+async function deliverWebhook(
+  queue: Pick<JobQueue, "recordWebhookDelivery">,
+  url: string,
+  payload: WebhookPayload
+): Promise<void> {
+  const deliveryId = randomUUID()
+  const body = JSON.stringify(payload)
+
+  for (let attempt = 1; attempt <= WEBHOOK_MAX_ATTEMPTS; attempt++) {
+    const startedAt = Date.now()
+    const { status, error } = await postWebhook(url, body, deliveryId)
+    const delivered = error === null
+    const delivery: WebhookDelivery = {
+      delivery_id: deliveryId,
+      job_id: payload.job_id,
+      url,
+      status: payload.status,
+      attempt,
+      response_status: status,
+      error,
+      delivered,
+      duration_ms: Date.now() - startedAt,
+      attempted_at: new Date(startedAt).toISOString(),
+    }
+
+    try {
+      await queue.recordWebhookDelivery(delivery)
+    } catch (err) {
+      log.warn("Failed to record webhook delivery", { error: err })
+    }
+
+    if (delivered) {
+      webhookDeliveries.inc(1, { outcome: "delivered" })
+      log.info("Webhook delivered", { url, attempt, response_status: status })
+      return
+    }
+
+    const retryable = status === null || isRetryableStatus(status)
+    if (!retryable || attempt === WEBHOOK_MAX_ATTEMPTS) {
+      webhookDeliveries.inc(1, { outcome: "failed" })
+      log.error("Webhook delivery failed", { url, attempt, response_status: status, error })
+      return
+    }
+
+    const delayMs = WEBHOOK_RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1)
+    log.warn("Webhook delivery failed, will retry", { url, attempt, response_status: status, error, retry_in_ms: delayMs })
+    await new Promise((resolve) => setTimeout(resolve, delayMs))
+  }
+}
+
+export interface WebhookNotifier {
+  // Report a job's final status to its webhook, if it has one. Delivery runs
+  // in the background so retries don't hold up the render slot.
+  notify(job: VideoJob, status: VideoJobStatus, result: ProcessResult | null): void
+  // Wait for deliveries still in progress
+  drain(): Promise<void>
+}
+
+export function createWebhookNotifier(queue: Pick<JobQueue, "getUserSettings" | "recordWebhookDelivery">): WebhookNotifier {
+  const inProgress = new Set<Promise<void>>()
+
+  return {
+    notify(job, status, result) {
+      if (!FINAL_STATUSES.includes(status)) {
+        return
+      }
+
+      const delivery = (async () => {
+        const url = await resolveWebhookUrl(queue, job)
+        if (!url) {
+          return
+        }
+        if (!WEBHOOK_SECRET) {
+          log.error("WEBHOOK_SECRET is not set, skipping webhook", { url })
+          return
+        }
+        await deliverWebhook(queue, url, buildWebhookPayload(job, status, result))
+      })()
+        .catch((err) => {
+          log.error("Webhook notification failed", { error: err })
+        })
+        .finally(() => {
+          inProgress.delete(delivery)
+        })
+      inProgress.add(delivery)
+    },
+
+    async drain() {
+      await Promise.all([...inProgress])
+    },
+  }
+}
@@ -0,0 +1,75 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { buildCaptionFilters } from "../src/captions"
+import { OUTPUT_PRESETS } from "../src/presets"
+
+const TIKTOK = OUTPUT_PRESETS.tiktok
+
+// The value of one drawtext option, e.g. getOption(filter, "text")
+function getOption(filter: string, name: string): string | undefined {
+  return filter.match(new RegExp(`[:=]${name}=('(?:[^'\\\\]|\\\\.|'\\\\'')*'|[^:]*)`))?.[1]
+}
+
+describe("buildCaptionFilters", () => {
+  it("wraps to the frame width with one centered drawtext per line", () => {
+    const filters = buildCaptionFilters({ text: "Stop scrolling and watch this demo right now", startTime: 0, endTime: 2 }, TIKTOK)
+    assert.deepEqual(filters, [
+      "drawtext=text='Stop scrolling and watch':expansion=none:fontsize='72':x='max(0,min(w-text_w,w/2-text_w/2))':y='h/2-90+0'" +
+        ":fontcolor=white:borderw=3:bordercolor=black:shadowcolor=black@0.6:shadowx=4:shadowy=4:enable='between(t,0,2)'",
+      "drawtext=text='this demo right now':expansion=none:fontsize='72':x='max(0,min(w-text_w,w/2-text_w/2))':y='h/2-90+90'" +
+        ":fontcolor=white:borderw=3:bordercolor=black:shadowcolor=black@0.6:shadowx=4:shadowy=4:enable='between(t,0,2)'",
+    ])
+  })
+
+  it("splits words longer than a line and keeps explicit line breaks", () => {
+    const filters = buildCaptionFilters({ text: "abcdefghijk\nok", startTime: 0, endTime: 1, maxWidth: 20 }, TIKTOK)
+    assert.deepEqual(filters.map((filter) => getOption(filter, "text")), ["'abcde'", "'fghij'", "'k'", "'ok'"])
+  })
+
+  it("escapes characters drawtext treats specially", () => {
+    const [filter] = buildCaptionFilters({ text: "It's 50% off: [now]", startTime: 0, endTime: 1 }, TIKTOK)
+    assert.ok(filter.startsWith("drawtext=text='It'\\''s 50% off\\: \\[now\\]':expansion=none:"))
+  })
+
+  it("scales sizes to the output and applies the style", () => {
+    const format = { name: "small", width: 720, height: 1280, fps: 30, crf: 23 }
+    const [filter] = buildCaptionFilters({
+      text: "Hello",
+      startTime: 0,
+      endTime: 1,
+      style: { fontSize: "large", color: "#FFCC00", fontWeight: "bold" },
+      position: { x: 50, y: 20 },
+      box: { color: "black", opacity: 0.5, padding: 12 },
+    }, format)
+    assert.equal(getOption(filter, "fontsize"), "'64'")
+    assert.equal(getOption(filter, "fontcolor"), "#FFCC00")
+    assert.equal(getOption(filter, "y"), "'h*20/100-40+0'")
+    assert.ok(filter.includes(":box=1:boxcolor=black@0.5:boxborderw=8:font=DejaVu Sans Bold:"))
+    assert.equal(getOption(filter, "borderw"), undefined)
+  })
+
+  it("animates the entrance", () => {
+    const caption = { text: "Hello", startTime: 1, endTime: 3 }
+    const progress = "min(max((t-1)/0.3,0),1)"
+
+    const [fade] = buildCaptionFilters({ ...caption, animation: "fade" }, TIKTOK)
+    assert.equal(getOption(fade, "alpha"), `'${progress}'`)
+
+    const [slide] = buildCaptionFilters({ ...caption, animation: "slide" }, TIKTOK)
+    assert.equal(getOption(slide, "y"), `'h/2-45+0+(1-${progress})*90'`)
+
+    const [pop] = buildCaptionFilters({ ...caption, animation: "pop", animationDuration: 500 }, TIKTOK)
+    assert.match(getOption(pop, "fontsize") ?? "", /^'72\*if\(lt\(min\(max\(\(t-1\)\/0\.5,0\),1\),0\.7\)/)
+  })
+
+  it("reveals typewriter captions in at most 30 steps", () => {
+    const short = buildCaptionFilters({ text: "Hi", startTime: 1, endTime: 3, animation: "typewriter", animationDuration: 100 }, TIKTOK)
+    assert.deepEqual(short.map((filter) => [getOption(filter, "text"), getOption(filter, "enable")]), [
+      ["'H'", "'between(t,1,1.05)'"],
+      ["'Hi'", "'between(t,1.05,3)'"],
+    ])
+
+    const long = buildCaptionFilters({ text: "word ".repeat(40).trim(), startTime: 0, endTime: 10, animation: "typewriter" }, TIKTOK)
+    assert.equal(new Set(long.map((filter) => getOption(filter, "enable"))).size, 30)
+  })
+})
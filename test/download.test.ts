@@ -0,0 +1,120 @@
+import assert from "node:assert/strict"
+import { existsSync } from "node:fs"
+import { mkdtemp, readFile, rm } from "node:fs/promises"
+import { createServer } from "node:http"
+import type { Server } from "node:http"
+import type { AddressInfo } from "node:net"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { after, before, describe, it } from "node:test"
+import { JobError } from "../src/errors"
+
+// The limits are read when the module loads, so it's imported once these are set
+process.env.MAX_INPUT_BYTES = "1024"
+process.env.DOWNLOAD_READ_TIMEOUT_MS = "200"
+
+const OBJECT_PATH = "/storage/v1/object/public/videos"
+
+describe("downloadFile", () => {
+  let download: typeof import("../src/download")
+  let server: Server
+  let origin: string
+  let directory: string
+
+  before(async () => {
+    server = createServer((req, res) => {
+      const route = req.url?.slice(OBJECT_PATH.length) ?? ""
+      if (route === "/clip.mp4") {
+        res.end("video bytes")
+      } else if (route === "/moved.mp4") {
+        res.writeHead(302, { location: `${OBJECT_PATH}/clip.mp4` }).end()
+      } else if (route === "/escape.mp4") {
+        res.writeHead(302, { location: "http://169.254.169.254/latest/meta-data" }).end()
+      } else if (route === "/loop.mp4") {
+        res.writeHead(302, { location: `${OBJECT_PATH}/loop.mp4` }).end()
+      } else if (route === "/busy.mp4") {
+        res.writeHead(503).end()
+      } else if (route === "/declared-large.mp4") {
+        res.writeHead(200, { "content-length": "4096" }).end()
+      } else if (route === "/streamed-large.mp4") {
+        // Chunked, so there's no Content-Length to check up front
+        res.write(Buffer.alloc(800))
+        res.end(Buffer.alloc(800))
+      } else if (route === "/stalled.mp4") {
+        res.writeHead(200).write("first chunk")
+      } else {
+        res.writeHead(404).end()
+      }
+    })
+    await new Promise<void>((resolve) => server.listen(0, "127.0.0.1", resolve))
+    origin = `http://127.0.0.1:${(server.address() as AddressInfo).port}`
+    process.env.SUPABASE_URL = origin
+
+    download = await import("../src/download")
+    directory = await mkdtemp(path.join(tmpdir(), "download-"))
+  })
+
+  after(async () => {
+    server.closeAllConnections()
+    await new Promise((resolve) => server.close(resolve))
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  function isDownloadError(errorClass: string, message: RegExp) {
+    return (error: unknown) => error instanceof JobError && error.stage === "download" && error.errorClass === errorClass && message.test(error.message)
+  }
+
+  it("only allows the project's storage buckets and listed hosts", () => {
+    assert.equal(download.getSourceUrlError(`${origin}${OBJECT_PATH}/clip.mp4`), null)
+    assert.match(download.getSourceUrlError(`${origin}/storage/v1/object/public/private/clip.mp4`) ?? "", /allowed storage bucket \(videos\)/)
+    assert.match(download.getSourceUrlError(`${origin}/rest/v1/video_jobs`) ?? "", /allowed storage bucket/)
+    assert.equal(download.getSourceUrlError("https://example.com/clip.mp4"), "host example.com is not an allowed source")
+    assert.equal(download.getSourceUrlError(`ftp://127.0.0.1${OBJECT_PATH}/clip.mp4`), "must be an http(s) URL")
+    assert.equal(download.getSourceUrlError(`http://user:pass@${origin.slice(7)}${OBJECT_PATH}/clip.mp4`), "must not contain credentials")
+    assert.equal(download.getSourceUrlError("not a url"), "is not a valid URL")
+    assert.equal(download.getSourceUrlError("file:///etc/passwd"), "must be an http(s) URL")
+  })
+
+  it("streams an allowed file to disk, following redirects", async () => {
+    const outputPath = path.join(directory, "moved.mp4")
+    await download.downloadFile(`${origin}${OBJECT_PATH}/moved.mp4`, outputPath)
+    assert.equal(await readFile(outputPath, "utf8"), "video bytes")
+  })
+
+  it("checks every redirect hop against the allowlist", async () => {
+    const outputPath = path.join(directory, "escape.mp4")
+    await assert.rejects(
+      download.downloadFile(`${origin}${OBJECT_PATH}/escape.mp4`, outputPath),
+      isDownloadError("permanent", /^Refusing to download http:\/\/169\.254\.169\.254/)
+    )
+    assert.equal(existsSync(outputPath), false)
+
+    await assert.rejects(
+      download.downloadFile(`${origin}${OBJECT_PATH}/loop.mp4`, path.join(directory, "loop.mp4")),
+      isDownloadError("permanent", /more than 5 redirects/)
+    )
+  })
+
+  it("retries server errors but not missing files", async () => {
+    await assert.rejects(download.downloadFile(`${origin}${OBJECT_PATH}/busy.mp4`, path.join(directory, "busy.mp4")), isDownloadError("retryable", /503/))
+    await assert.rejects(download.downloadFile(`${origin}${OBJECT_PATH}/missing.mp4`, path.join(directory, "missing.mp4")), isDownloadError("permanent", /404/))
+  })
+
+  it("enforces the size limit on Content-Length and while streaming", async () => {
+    await assert.rejects(
+      download.downloadFile(`${origin}${OBJECT_PATH}/declared-large.mp4`, path.join(directory, "declared.mp4")),
+      isDownloadError("permanent", /File is 4096 bytes, the limit is 1024/)
+    )
+    await assert.rejects(
+      download.downloadFile(`${origin}${OBJECT_PATH}/streamed-large.mp4`, path.join(directory, "streamed.mp4")),
+      isDownloadError("permanent", /over the 1024 byte limit/)
+    )
+  })
+
+  it("gives up on a stalled body", async () => {
+    await assert.rejects(
+      download.downloadFile(`${origin}${OBJECT_PATH}/stalled.mp4`, path.join(directory, "stalled.mp4")),
+      isDownloadError("retryable", /timed out: no data for 200ms/)
+    )
+  })
+})
@@ -0,0 +1,139 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { buildFFmpegArgs } from "../src/ffmpeg"
+import { OUTPUT_PRESETS } from "../src/presets"
+import type { Segment } from "../src/types"
+import { getFilterGraph, segmentInput } from "./helpers"
+
+const TIKTOK = OUTPUT_PRESETS.tiktok
+
+describe("buildFFmpegArgs timeline", () => {
+  it("resets the time base and frame rate after a cut that feeds an xfade", () => {
+    const inputs = [
+      segmentInput(0, { transition: { type: "cut", duration: 0 } }),
+      segmentInput(1, { transition: { type: "crossfade", duration: 500 } }),
+      segmentInput(2),
+    ]
+    const command = buildFFmpegArgs(inputs, "/tmp/out.mp4", null, null, TIKTOK)
+    const graph = getFilterGraph(command.args)
+
+    assert.ok(graph.includes("[v0][v1]concat=n=2:v=1:a=0,settb=1/30,fps=30[vx1]"))
+    assert.ok(graph.includes("[vx1][v2]xfade=transition=fade:duration=0.5:offset=9.5[vtl]"))
+    assert.equal(command.duration, 14.5)
+    assert.equal(command.hookDuration, 5)
+  })
+
+  it("measures every xfade offset from the start of the output", () => {
+    const inputs = [
+      segmentInput(0, { transition: { type: "crossfade", duration: 1000 } }),
+      segmentInput(1, { transition: { type: "push-up", duration: 500 }, trim: { startTime: 1, endTime: 4, useFullVideo: false } }),
+      segmentInput(2, { transition: { type: "zoom-cut", duration: 800 } }),
+      segmentInput(3),
+    ]
+    const graph = getFilterGraph(buildFFmpegArgs(inputs, "/tmp/out.mp4", null, null, TIKTOK).args)
+
+    assert.ok(graph.includes("[v0][v1]xfade=transition=fade:duration=1:offset=4[vx1]"))
+    assert.ok(graph.includes("[vx1][v2]xfade=transition=slideup:duration=0.5:offset=6.5[vx2]"))
+    // Zoom cuts are capped at 0.3s of overlap
+    assert.ok(graph.includes("[vx2][v3]xfade=transition=zoomin:duration=0.3:offset=10.7[vtl]"))
+    assert.ok(graph[1].startsWith("[1:v]trim=start=1:end=4,setpts=PTS-STARTPTS,"))
+  })
+
+  it("keeps the audio in step with the video joins", () => {
+    const inputs = [
+      segmentInput(0, { transition: { type: "crossfade", duration: 1000 } }),
+      segmentInput(1, { transition: { type: "cut", duration: 0 } }, { hasAudio: false }),
+      segmentInput(2),
+    ]
+    const command = buildFFmpegArgs(inputs, "/tmp/out.mp4", null, { audioSource: "both" }, TIKTOK)
+    const graph = getFilterGraph(command.args)
+
+    assert.ok(graph.includes("[a0]atrim=duration=5[a0c]"))
+    assert.ok(graph.includes("[a0c][a1]acrossfade=d=1[ax1]"))
+    assert.ok(graph.includes("[ax1][a2]concat=n=2:v=0:a=1[outa]"))
+    // A segment without an audio stream contributes silence
+    assert.ok(graph.includes("anullsrc=r=48000:cl=stereo,atrim=duration=5,aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo[a1]"))
+    assert.deepEqual(command.args.slice(command.args.indexOf("-map"), command.args.indexOf("-map") + 4), ["-map", "[outv]", "-map", "[outa]"])
+  })
+
+  it("renders a single segment without joins or audio", () => {
+    const command = buildFFmpegArgs([segmentInput(0, {}, { rotation: 90 })], "/tmp/out.mp4", null, null, TIKTOK)
+    const graph = getFilterGraph(command.args)
+
+    assert.ok(graph.includes("[v0]null[vtl]"))
+    assert.ok(graph[0].startsWith("[0:v]transpose=clock,scale=1080:1920:force_original_aspect_ratio=decrease,"))
+    assert.ok(command.args.includes("-an"))
+    assert.equal(command.args.at(-1), "/tmp/out.mp4")
+  })
+
+  it("rejects captions timed against a missing segment", () => {
+    const config = { captions: [{ text: "Hello", startTime: 0, endTime: 1, segment: 3 }] }
+    assert.throws(() => buildFFmpegArgs([segmentInput(0)], "/tmp/out.mp4", null, config, TIKTOK), /refers to missing segment 3/)
+  })
+})
+
+describe("buildFFmpegArgs effects", () => {
+  function segmentFilter(effect: Segment["effect"]): string {
+    const inputs = [segmentInput(0, { effect, trim: { startTime: 0, endTime: 5, useFullVideo: false } })]
+    return getFilterGraph(buildFFmpegArgs(inputs, "/tmp/out.mp4", null, null, TIKTOK).args)[0]
+  }
+
+  it("zooms in over the whole segment with one output frame per input frame", () => {
+    assert.ok(segmentFilter({ type: "zoom-in", intensity: "subtle" }).endsWith(
+      ",fps=30,zoompan=z='1+0.075*min(on/150,1)':x='iw/2-(iw/zoom/2)':y='ih/2-(ih/zoom/2)':d=1:s=1080x1920:fps=30[v0]"
+    ))
+  })
+
+  it("punches in on the first beat and eases back out", () => {
+    assert.ok(segmentFilter({ type: "punch-zoom", intensity: "medium" }).includes(
+      "zoompan=z='if(lt((on/30),0.1),1+0.25*(on/30)/0.1,1+0.25*exp(-((on/30)-0.1)/0.3))'"
+    ))
+  })
+
+  it("pans from top to bottom with a per-frame crop", () => {
+    assert.ok(segmentFilter({ type: "vertical-pan", intensity: "medium" }).endsWith(
+      ",fps=30,scale=1296:2304,crop=1080:1920:(iw-1080)/2:'(ih-1920)*min(t/5,1)'[v0]"
+    ))
+  })
+
+  it("crops the center for a static zoom and leaves the segment alone without an effect", () => {
+    assert.ok(segmentFilter({ type: "center-crop", intensity: "medium" }).endsWith(
+      ",fps=30,scale=1188:2112,crop=1080:1920:(iw-1080)/2:(ih-1920)/2[v0]"
+    ))
+    assert.ok(segmentFilter({ type: "none", intensity: "medium" }).endsWith(",setsar=1,fps=30[v0]"))
+  })
+})
+
+describe("buildFFmpegArgs audio source", () => {
+  const AUDIO_FORMAT = "aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo"
+
+  function audioChains(audioSource: "hook" | "demo" | "both" | "none"): string[] {
+    const inputs = [
+      segmentInput(0, { trim: { startTime: 1, endTime: 3, useFullVideo: false } }),
+      segmentInput(1),
+    ]
+    const graph = getFilterGraph(buildFFmpegArgs(inputs, "/tmp/out.mp4", null, { audioSource }, TIKTOK).args)
+    return graph.filter((chain) => /\[a[01]\]$/.test(chain))
+  }
+
+  it("keeps the hook's audio, trimmed like its video, and silences the demo", () => {
+    assert.deepEqual(audioChains("hook"), [
+      `[0:a]atrim=start=1:end=3,asetpts=PTS-STARTPTS,${AUDIO_FORMAT},apad,atrim=duration=2[a0]`,
+      `anullsrc=r=48000:cl=stereo,atrim=duration=5,${AUDIO_FORMAT}[a1]`,
+    ])
+  })
+
+  it("keeps the demo's audio and silences the hook", () => {
+    assert.deepEqual(audioChains("demo"), [
+      `anullsrc=r=48000:cl=stereo,atrim=duration=2,${AUDIO_FORMAT}[a0]`,
+      `[1:a]${AUDIO_FORMAT},apad,atrim=duration=5[a1]`,
+    ])
+  })
+
+  it("renders a silent output by default", () => {
+    assert.deepEqual(audioChains("none"), [])
+    const command = buildFFmpegArgs([segmentInput(0), segmentInput(1)], "/tmp/out.mp4", null, null, TIKTOK)
+    assert.ok(command.args.includes("-an"))
+    assert.ok(!command.args.includes("[outa]"))
+  })
+})
@@ -0,0 +1,17 @@
+// Fixtures shared by the test files
+import type { SegmentInput } from "../src/ffmpeg"
+import type { MediaInfo, Segment } from "../src/types"
+
+// A probed 5 second landscape clip with audio
+export function media(fields: Partial<MediaInfo> = {}): MediaInfo {
+  return { duration: 5, width: 1920, height: 1080, rotation: 0, fps: 30, codec: "h264", hasAudio: true, isVfr: false, sizeBytes: 1000, ...fields }
+}
+
+export function segmentInput(index: number, segment: Partial<Segment> = {}, mediaFields: Partial<MediaInfo> = {}): SegmentInput {
+  return { path: `/tmp/segment-${index}.mp4`, segment: { url: `https://example.com/${index}.mp4`, ...segment }, media: media(mediaFields) }
+}
+
+// The filtergraph of a command, one filter chain per entry
+export function getFilterGraph(args: string[]): string[] {
+  return args[args.indexOf("-filter_complex") + 1].split(";")
+}
@@ -0,0 +1,223 @@
+import assert from "node:assert/strict"
+import { existsSync } from "node:fs"
+import { mkdtemp, readFile, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { afterEach, beforeEach, describe, it } from "node:test"
+import { createLocalJobQueue, createLocalStorage } from "../src/local"
+import type { RetryPolicy } from "../src/queue"
+import type { QuotaLimits } from "../src/scheduler"
+import type { VideoJob } from "../src/types"
+
+const UNLIMITED: QuotaLimits = { maxConcurrentJobs: 0, dailyRenderMinutes: 0 }
+const POLICY: RetryPolicy = { maxAttempts: 2, baseDelayMs: 0, maxDelayMs: 0 }
+
+describe("local job queue", () => {
+  let directory: string
+  let filePath: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "local-queue-"))
+    filePath = path.join(directory, "jobs.json")
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  async function writeJobs(jobs: Partial<VideoJob>[], extra: object = {}): Promise<void> {
+    await writeFile(filePath, JSON.stringify({ jobs, ...extra }))
+  }
+
+  async function readJob(id: string): Promise<VideoJob> {
+    const data = JSON.parse(await readFile(filePath, "utf8")) as { jobs: VideoJob[] }
+    const job = data.jobs.find((row) => row.id === id)
+    assert.ok(job, `job ${id} is in the file`)
+    return job
+  }
+
+  it("retries a retryable failure until the attempts run out", async () => {
+    await writeJobs([{ id: "job-1" }])
+    const queue = createLocalJobQueue(filePath)
+
+    const first = await queue.claimNextJob("worker-a", UNLIMITED)
+    assert.equal(first?.id, "job-1")
+    assert.equal(first?.status, "processing")
+    assert.equal(first?.worker_id, "worker-a")
+    assert.equal(first?.attempts, 1)
+    assert.equal(await queue.claimNextJob("worker-b", UNLIMITED), null)
+
+    assert.equal(await queue.failJob(first!, { success: false, error: "timeout", errorClass: "retryable" }, POLICY), "pending")
+
+    const second = await queue.claimNextJob("worker-b", UNLIMITED)
+    assert.equal(second?.attempts, 2)
+    assert.equal(await queue.failJob(second!, { success: false, error: "timeout", errorClass: "retryable" }, POLICY), "failed")
+
+    const row = await readJob("job-1")
+    assert.equal(row.status, "failed")
+    assert.equal(row.error_message, "timeout")
+    assert.equal(await queue.claimNextJob("worker-c", UNLIMITED), null)
+  })
+
+  it("sends permanent failures straight to error", async () => {
+    await writeJobs([{ id: "job-1" }])
+    const queue = createLocalJobQueue(filePath)
+
+    const job = await queue.claimNextJob("worker-a", UNLIMITED)
+    const status = await queue.failJob(job!, { success: false, error: "bad config", errorClass: "permanent", errorStage: "config" }, POLICY)
+    assert.equal(status, "error")
+    assert.equal((await readJob("job-1")).error_message, "[config] bad config")
+  })
+
+  it("releases a claim without counting the attempt", async () => {
+    await writeJobs([{ id: "job-1" }])
+    const queue = createLocalJobQueue(filePath)
+
+    const job = await queue.claimNextJob("worker-a", UNLIMITED)
+    await queue.releaseJob(job!)
+
+    const row = await readJob("job-1")
+    assert.equal(row.status, "pending")
+    assert.equal(row.worker_id, null)
+    assert.equal(row.attempts, 0)
+
+    const again = await queue.claimNextJob("worker-b", UNLIMITED)
+    assert.equal(again?.attempts, 1)
+  })
+
+  it("ignores writes from a worker that lost its claim", async () => {
+    await writeJobs([{ id: "job-1" }])
+    const queue = createLocalJobQueue(filePath)
+
+    const stale = await queue.claimNextJob("worker-a", UNLIMITED)
+    await queue.releaseJob(stale!)
+    const current = await queue.claimNextJob("worker-b", UNLIMITED)
+
+    await queue.failJob(stale!, { success: false, error: "late", errorClass: "permanent" }, POLICY)
+    await queue.completeJob(stale!, [])
+    const row = await readJob("job-1")
+    assert.equal(row.status, "processing")
+    assert.equal(row.worker_id, current?.worker_id)
+  })
+
+  it("defers the fresh jobs of a user out of render minutes", async () => {
+    const claimedAt = new Date().toISOString()
+    await writeJobs([
+      { id: "done", user_id: "alice", status: "done", claimed_at: claimedAt, render_seconds: 120 },
+      { id: "alice-1", user_id: "alice" },
+      { id: "alice-2", user_id: "alice", priority: 5 },
+      { id: "alice-retry", user_id: "alice", attempts: 1, error_message: "[download] timeout", next_attempt_at: new Date(Date.now() + 60_000).toISOString() },
+      { id: "bob-1", user_id: "bob" },
+    ], { userSettings: [{ user_id: "alice", default_watermark: null, daily_render_minutes: 2 }] })
+    const queue = createLocalJobQueue(filePath)
+
+    const job = await queue.claimNextJob("worker-a", UNLIMITED)
+    assert.equal(job?.id, "bob-1")
+    for (const id of ["alice-1", "alice-2"]) {
+      const row = await readJob(id)
+      assert.equal(row.status, "deferred")
+      assert.match(row.error_message ?? "", /^\[quota\] /)
+    }
+    const retry = await readJob("alice-retry")
+    assert.equal(retry.status, "pending")
+    assert.equal(retry.error_message, "[download] timeout")
+    assert.equal(await queue.countPendingJobs(), 3)
+  })
+
+  it("takes a job from claim to done and counts its render seconds", async () => {
+    await writeJobs([{ id: "job-1" }])
+    const queue = createLocalJobQueue(filePath)
+
+    const job = await queue.claimNextJob("worker-a", UNLIMITED)
+    await queue.reserveRenderSeconds(job!, 12)
+    await queue.updateProgress(job!, { stage: "rendering", progress: 40 })
+    await queue.heartbeatJobs("worker-a", [job!.id])
+    assert.equal((await readJob("job-1")).render_seconds, 12)
+
+    const outputs = [{ name: "tiktok", url: "file:///out/job-1.mp4", duration: 10 }, { name: "youtube", url: "file:///out/job-1-youtube.mp4", duration: 10 }]
+    await queue.completeJob(job!, outputs)
+    await queue.recordJobEvent({ job_id: job!.id, worker_id: "worker-a", attempt: 1, stage: "render:tiktok", outcome: "ok", started_at: job!.claimed_at!, duration_ms: 5, details: null })
+
+    const row = await readJob("job-1")
+    assert.equal(row.status, "done")
+    assert.equal(row.progress, 100)
+    assert.equal(row.output_url, "file:///out/job-1.mp4")
+    assert.deepEqual(row.output_urls, outputs)
+    assert.equal(row.render_seconds, 20)
+    assert.equal(await queue.countPendingJobs(), 0)
+
+    const events = (await readFile(path.join(directory, "jobs.events.jsonl"), "utf8")).trim().split("\n").map((line) => JSON.parse(line))
+    assert.deepEqual(events.map((event) => event.stage), ["render:tiktok"])
+  })
+
+  it("cancels a job the user asked to stop", async () => {
+    await writeJobs([{ id: "job-1" }, { id: "job-2" }])
+    const queue = createLocalJobQueue(filePath)
+
+    const first = await queue.claimNextJob("worker-a", UNLIMITED)
+    const second = await queue.claimNextJob("worker-a", UNLIMITED)
+    const data = JSON.parse(await readFile(filePath, "utf8")) as { jobs: VideoJob[] }
+    data.jobs.find((row) => row.id === first!.id)!.cancel_requested = true
+    await writeFile(filePath, JSON.stringify(data))
+
+    assert.deepEqual(await queue.fetchCancelRequests("worker-a", [first!.id, second!.id]), [first!.id])
+    assert.deepEqual(await queue.fetchCancelRequests("worker-b", [first!.id]), [])
+
+    await queue.cancelJob(first!)
+    // Cancelled jobs stay put: a late release from the shutdown path doesn't requeue them
+    await queue.releaseJob(first!)
+    assert.equal((await readJob(first!.id)).status, "cancelled")
+    assert.equal((await readJob(second!.id)).status, "processing")
+  })
+
+  it("reaps jobs whose worker stopped heartbeating", async () => {
+    const longAgo = new Date(Date.now() - 60_000).toISOString()
+    await writeJobs([
+      { id: "stale", status: "processing", worker_id: "dead", heartbeat_at: longAgo, attempts: 1 },
+      { id: "exhausted", status: "processing", worker_id: "dead", heartbeat_at: longAgo, attempts: 2 },
+      { id: "cancelled", status: "processing", worker_id: "dead", heartbeat_at: longAgo, attempts: 1, cancel_requested: true },
+      { id: "silent", status: "processing", worker_id: "dead", heartbeat_at: null, attempts: 1 },
+      { id: "alive", status: "processing", worker_id: "live", heartbeat_at: new Date().toISOString(), attempts: 1 },
+    ])
+    const queue = createLocalJobQueue(filePath)
+
+    assert.equal(await queue.reapStaleJobs(30_000, POLICY), 4)
+    assert.equal((await readJob("silent")).status, "pending")
+    assert.equal((await readJob("stale")).status, "pending")
+    assert.equal((await readJob("stale")).worker_id, null)
+    assert.equal((await readJob("exhausted")).status, "failed")
+    assert.equal((await readJob("cancelled")).status, "cancelled")
+    assert.equal((await readJob("alive")).status, "processing")
+  })
+})
+
+describe("local storage", () => {
+  let directory: string
+
+  beforeEach(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "local-storage-"))
+  })
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it("removes uploads and their library rows", async () => {
+    const storage = createLocalStorage(directory)
+    const source = path.join(directory, "render.mp4")
+    await writeFile(source, "video")
+
+    const record = { user_id: "alice", type: "output" as const, preset: "tiktok", poster_url: null, preview_url: null, duration: 10, width: 1080, height: 1920, batch_id: null, variant: null }
+    for (const storagePath of ["alice/output/job-1.mp4", "alice/output/job-2.mp4"]) {
+      const url = await storage.upload(source, storagePath, "video/mp4")
+      await storage.saveVideo({ ...record, url, filename: path.basename(storagePath), storage_path: storagePath })
+    }
+
+    await storage.removeUploads(["alice/output/job-1.mp4"])
+
+    assert.equal(existsSync(path.join(directory, "alice/output/job-1.mp4")), false)
+    assert.equal(existsSync(path.join(directory, "alice/output/job-2.mp4")), true)
+    const rows = (await readFile(path.join(directory, "videos.jsonl"), "utf8")).trim().split("\n").map((line) => JSON.parse(line))
+    assert.deepEqual(rows.map((row) => row.storage_path), ["alice/output/job-2.mp4"])
+  })
+})
@@ -0,0 +1,67 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { buildFFmpegArgs } from "../src/ffmpeg"
+import { buildMusicFilters, buildMusicInputArgs } from "../src/music"
+import { OUTPUT_PRESETS } from "../src/presets"
+import { getFilterGraph, segmentInput } from "./helpers"
+
+const TRACK = "https://project.supabase.co/storage/v1/object/public/videos/track.mp3"
+const AUDIO_FORMAT = "aformat=sample_fmts=fltp:sample_rates=48000:channel_layouts=stereo"
+const LOUDNORM = "loudnorm=I=-14:TP=-1.5:LRA=11,aresample=48000"
+
+describe("buildMusicInputArgs", () => {
+  it("seeks to the start offset and loops the track", () => {
+    assert.deepEqual(buildMusicInputArgs({ url: TRACK }, "/tmp/music.mp3"), ["-stream_loop", "-1", "-ss", "0", "-i", "/tmp/music.mp3"])
+    assert.deepEqual(buildMusicInputArgs({ url: TRACK, startOffset: 12.5 }, "/tmp/music.mp3").slice(2, 4), ["-ss", "12.5"])
+  })
+})
+
+describe("buildMusicFilters", () => {
+  it("ducks the music under the voice track and normalizes the mix", () => {
+    assert.deepEqual(buildMusicFilters(2, { url: TRACK }, 10, "vox", "outa"), [
+      `[2:a]atrim=duration=10,asetpts=PTS-STARTPTS,${AUDIO_FORMAT},volume=0.3[music]`,
+      "[vox]asplit=2[voice][voicesc]",
+      "[music][voicesc]sidechaincompress=threshold=0.05:ratio=8:attack=20:release=400[ducked]",
+      "[voice][ducked]amix=inputs=2:duration=first:normalize=0[mix]",
+      `[mix]${LOUDNORM}[outa]`,
+    ])
+  })
+
+  it("mixes without ducking when it's turned off", () => {
+    assert.deepEqual(buildMusicFilters(2, { url: TRACK, duck: false, volume: 0.8 }, 10, "vox", "outa").slice(1), [
+      "[vox][music]amix=inputs=2:duration=first:normalize=0[mix]",
+      `[mix]${LOUDNORM}[outa]`,
+    ])
+  })
+
+  it("plays the music alone over a silent video, with fades capped at its length", () => {
+    assert.deepEqual(buildMusicFilters(1, { url: TRACK, fadeIn: 2, fadeOut: 8 }, 6, null, "outa"), [
+      `[1:a]atrim=duration=6,asetpts=PTS-STARTPTS,${AUDIO_FORMAT},volume=0.3,afade=t=in:st=0:d=2,afade=t=out:st=0:d=6[music]`,
+      `[music]${LOUDNORM}[outa]`,
+    ])
+  })
+})
+
+describe("buildFFmpegArgs with music", () => {
+  it("adds the track after the other inputs and mixes it into the output audio", () => {
+    const inputs = [segmentInput(0), segmentInput(1)]
+    const command = buildFFmpegArgs(inputs, "/tmp/out.mp4", null, { audioSource: "demo" }, OUTPUT_PRESETS.tiktok, {
+      music: { path: "/tmp/music.mp3", music: { url: TRACK } },
+    })
+    const graph = getFilterGraph(command.args)
+
+    assert.deepEqual(command.args.slice(command.args.indexOf("-stream_loop"), command.args.indexOf("-stream_loop") + 6), ["-stream_loop", "-1", "-ss", "0", "-i", "/tmp/music.mp3"])
+    assert.ok(graph.includes("[a0][a1]concat=n=2:v=0:a=1[vox]"))
+    assert.ok(graph.some((chain) => chain.startsWith("[2:a]atrim=duration=10,")))
+    assert.ok(graph.includes(`[mix]${LOUDNORM}[outa]`))
+    assert.ok(command.args.includes("[outa]"))
+  })
+
+  it("gives a silent video a music-only soundtrack", () => {
+    const command = buildFFmpegArgs([segmentInput(0)], "/tmp/out.mp4", null, null, OUTPUT_PRESETS.tiktok, {
+      music: { path: "/tmp/music.mp3", music: { url: TRACK } },
+    })
+    assert.ok(getFilterGraph(command.args).includes(`[music]${LOUDNORM}[outa]`))
+    assert.ok(!command.args.includes("-an"))
+  })
+})
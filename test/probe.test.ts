@@ -0,0 +1,83 @@
+import assert from "node:assert/strict"
+import { chmod, mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { after, before, describe, it } from "node:test"
+import { JobError } from "../src/errors"
+import { probeMedia } from "../src/probe"
+
+// ffprobe is replaced by a script on PATH that prints `stdout` (or sleeps)
+describe("probeMedia", () => {
+  let directory: string
+  let originalPath: string | undefined
+
+  before(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "probe-"))
+    originalPath = process.env.PATH
+    process.env.PATH = `${directory}${path.delimiter}${originalPath}`
+  })
+
+  after(async () => {
+    process.env.PATH = originalPath
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  async function fakeFFprobe(script: string): Promise<void> {
+    const ffprobePath = path.join(directory, "ffprobe")
+    await writeFile(ffprobePath, `#!/bin/sh\n${script}\n`)
+    await chmod(ffprobePath, 0o755)
+  }
+
+  async function fakeOutput(output: object): Promise<void> {
+    const outputPath = path.join(directory, "output.json")
+    await writeFile(outputPath, JSON.stringify(output))
+    await fakeFFprobe(`cat '${outputPath}'`)
+  }
+
+  function isProbeError(errorClass: string, message: RegExp) {
+    return (error: unknown) => error instanceof JobError && error.stage === "probe" && error.errorClass === errorClass && message.test(error.message)
+  }
+
+  it("reads duration, size, rotation, frame rate and audio", async () => {
+    await fakeOutput({
+      format: { format_name: "mov,mp4,m4a,3gp,3g2,mj2", duration: "12.5", size: "1000" },
+      streams: [
+        { codec_type: "video", codec_name: "h264", width: 1920, height: 1080, avg_frame_rate: "30000/1001", r_frame_rate: "30/1", side_data_list: [{ rotation: -90 }] },
+        { codec_type: "audio", codec_name: "aac" },
+      ],
+    })
+    assert.deepEqual(await probeMedia("/tmp/clip.mp4", "Segment 1"), {
+      duration: 12.5,
+      width: 1920,
+      height: 1080,
+      rotation: 90,
+      fps: 30000 / 1001,
+      codec: "h264",
+      hasAudio: true,
+      isVfr: false,
+      sizeBytes: 1000,
+    })
+  })
+
+  it("rejects inputs that aren't usable video", async () => {
+    await fakeOutput({ format: { format_name: "png_pipe", duration: "1" }, streams: [{ codec_type: "video", width: 10, height: 10 }] })
+    await assert.rejects(probeMedia("/tmp/logo.png", "Segment 1"), isProbeError("permanent", /^Segment 1 is an image/))
+
+    await fakeOutput({ format: { duration: "3" }, streams: [{ codec_type: "audio" }] })
+    await assert.rejects(probeMedia("/tmp/song.mp3", "Segment 2"), isProbeError("permanent", /^Segment 2 has no video stream/))
+
+    await fakeFFprobe("echo 'moov atom not found' >&2; exit 1")
+    await assert.rejects(probeMedia("/tmp/broken.mp4", "Segment 1"), isProbeError("permanent", /moov atom not found/))
+  })
+
+  it("kills a hung probe when the job is aborted", async () => {
+    await fakeFFprobe("exec sleep 30")
+    const controller = new AbortController()
+    const startedAt = Date.now()
+    setTimeout(() => controller.abort(), 100)
+    await assert.rejects(probeMedia("/tmp/clip.mp4", "Segment 1", controller.signal), isProbeError("retryable", /aborted/))
+    assert.ok(Date.now() - startedAt < 5000)
+
+    await assert.rejects(probeMedia("/tmp/clip.mp4", "Segment 1", controller.signal), isProbeError("retryable", /aborted/))
+  })
+})
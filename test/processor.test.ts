@@ -0,0 +1,68 @@
+import assert from "node:assert/strict"
+import { existsSync } from "node:fs"
+import { chmod, mkdtemp, rm, writeFile } from "node:fs/promises"
+import { tmpdir } from "node:os"
+import path from "node:path"
+import { after, before, describe, it } from "node:test"
+import { classifyFFmpegFailure, runFFmpeg } from "../src/processor"
+
+describe("classifyFFmpegFailure", () => {
+  it("retries failures caused by the machine", () => {
+    for (const stderr of [
+      "[mp4 @ 0x1] Error writing trailer: No space left on device",
+      "av_interleaved_write_frame(): Input/output error",
+      "Error while filtering: Cannot allocate memory",
+      "Exiting normally, received signal 15.",
+    ]) {
+      assert.equal(classifyFFmpegFailure(stderr), "retryable", stderr)
+    }
+  })
+
+  it("fails permanently when FFmpeg rejects the input or filtergraph", () => {
+    for (const stderr of [
+      "[Parsed_xfade_2 @ 0x1] First input link main timebase (1/1000000) do not match the corresponding second input link xfade timebase (1/30)",
+      "segment-0.mp4: Invalid data found when processing input",
+      "No such filter: 'zoompann'",
+    ]) {
+      assert.equal(classifyFFmpegFailure(stderr), "permanent", stderr)
+    }
+  })
+})
+
+// ffmpeg is replaced by a script on PATH that leaves a marker file when it runs
+describe("runFFmpeg", () => {
+  let directory: string
+  let markerPath: string
+  let originalPath: string | undefined
+
+  before(async () => {
+    directory = await mkdtemp(path.join(tmpdir(), "ffmpeg-"))
+    markerPath = path.join(directory, "ran")
+    const ffmpegPath = path.join(directory, "ffmpeg")
+    await writeFile(ffmpegPath, `#!/bin/sh\ntouch '${markerPath}'\n`)
+    await chmod(ffmpegPath, 0o755)
+    originalPath = process.env.PATH
+    process.env.PATH = `${directory}${path.delimiter}${originalPath}`
+  })
+
+  after(async () => {
+    process.env.PATH = originalPath
+    await rm(directory, { recursive: true, force: true })
+  })
+
+  it("runs FFmpeg", async () => {
+    const result = await runFFmpeg(["-version"])
+    assert.equal(result.success, true)
+    assert.ok(existsSync(markerPath))
+    await rm(markerPath)
+  })
+
+  it("doesn't spawn FFmpeg once the signal is aborted", async () => {
+    const controller = new AbortController()
+    controller.abort("cancelled")
+    const result = await runFFmpeg(["-version"], controller.signal)
+    assert.equal(result.success, false)
+    assert.equal(result.error, "FFmpeg was aborted")
+    assert.equal(existsSync(markerPath), false)
+  })
+})
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict"
+import { afterEach, beforeEach, describe, it, mock } from "node:test"
+import { createProgressReporter, parseProgressLine } from "../src/progress"
+import { normalizeJob } from "../src/local"
+import type { JobProgressStage } from "../src/types"
+
+describe("parseProgressLine", () => {
+  it("reads the output timestamp in seconds", () => {
+    assert.equal(parseProgressLine("out_time_us=2500000"), 2.5)
+    // Same unit as out_time_us
+    assert.equal(parseProgressLine("out_time_ms=1000000"), 1)
+  })
+
+  it("ignores every other key", () => {
+    for (const line of ["frame=42", "out_time=00:00:02.500000", "out_time_us=N/A", "progress=continue", ""]) {
+      assert.equal(parseProgressLine(line), null, line)
+    }
+  })
+})
+
+describe("createProgressReporter", () => {
+  let writes: { stage?: JobProgressStage; progress: number }[]
+  const queue = {
+    async updateProgress(_job: unknown, fields: { stage?: JobProgressStage; progress: number }) {
+      writes.push(fields)
+    },
+  }
+
+  beforeEach(() => {
+    writes = []
+    mock.timers.enable({ apis: ["Date"], now: 1_000_000 })
+  })
+
+  afterEach(() => {
+    mock.timers.reset()
+  })
+
+  it("maps each stage onto its share of the bar", async () => {
+    const progress = createProgressReporter(queue, normalizeJob({}))
+    progress.stage("downloading")
+    progress.stage("rendering")
+    progress.stage("uploading")
+    await progress.flush()
+    assert.deepEqual(writes, [
+      { stage: "downloading", progress: 0 },
+      { stage: "rendering", progress: 10 },
+      { stage: "uploading", progress: 90 },
+    ])
+  })
+
+  it("throttles updates within a stage and never goes backwards", async () => {
+    const progress = createProgressReporter(queue, normalizeJob({}))
+    progress.stage("rendering")
+    progress.update(0.5)
+    mock.timers.tick(2000)
+    progress.update(0.5)
+    progress.update(0.25)
+    mock.timers.tick(2000)
+    progress.update(0.25)
+    await progress.flush()
+    assert.deepEqual(writes, [
+      { stage: "rendering", progress: 10 },
+      { progress: 50 },
+    ])
+
+    progress.update(2)
+    await progress.flush()
+    assert.deepEqual(writes.at(-1), { progress: 90 })
+  })
+
+  it("keeps going when a write fails", async () => {
+    let calls = 0
+    const failing = {
+      async updateProgress() {
+        calls++
+        throw new Error("connection reset")
+      },
+    }
+    const progress = createProgressReporter(failing, normalizeJob({}))
+    progress.stage("downloading")
+    progress.stage("rendering")
+    await progress.flush()
+    assert.equal(calls, 2)
+  })
+})
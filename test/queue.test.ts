@@ -0,0 +1,43 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { getFailureOutcome, getRetryDelayMs, getStaleOutcome } from "../src/queue"
+import type { RetryPolicy } from "../src/queue"
+import { normalizeJob } from "../src/local"
+
+const POLICY: RetryPolicy = { maxAttempts: 3, baseDelayMs: 1000, maxDelayMs: 3000 }
+const NOW = new Date("2024-01-01T00:00:00Z")
+
+describe("getRetryDelayMs", () => {
+  it("doubles the delay per attempt up to the cap", () => {
+    assert.deepEqual([1, 2, 3, 4].map((attempts) => getRetryDelayMs(POLICY, attempts)), [1000, 2000, 3000, 3000])
+  })
+})
+
+describe("getFailureOutcome", () => {
+  it("retries retryable failures with a backoff", () => {
+    const job = normalizeJob({ attempts: 2 })
+    const outcome = getFailureOutcome(job, { success: false, error: "timeout", errorClass: "retryable", errorStage: "download" }, POLICY, NOW)
+    assert.deepEqual(outcome, { status: "pending", nextAttemptAt: "2024-01-01T00:00:02.000Z", errorMessage: "[download] timeout" })
+  })
+
+  it("dead-letters retryable failures on the last attempt", () => {
+    const job = normalizeJob({ attempts: 3 })
+    const outcome = getFailureOutcome(job, { success: false, error: "timeout", errorClass: "retryable" }, POLICY, NOW)
+    assert.equal(outcome.status, "failed")
+    assert.equal(outcome.nextAttemptAt, null)
+  })
+
+  it("never retries permanent failures", () => {
+    const job = normalizeJob({ attempts: 1 })
+    const outcome = getFailureOutcome(job, { success: false, error: "bad input", errorClass: "permanent", errorStage: "probe" }, POLICY, NOW)
+    assert.deepEqual(outcome, { status: "error", nextAttemptAt: null, errorMessage: "[probe] bad input" })
+  })
+})
+
+describe("getStaleOutcome", () => {
+  it("requeues stale jobs with attempts left and dead-letters the rest", () => {
+    assert.equal(getStaleOutcome({ attempts: 2, cancel_requested: false }, POLICY), "pending")
+    assert.equal(getStaleOutcome({ attempts: 3, cancel_requested: false }, POLICY), "failed")
+    assert.equal(getStaleOutcome({ attempts: 1, cancel_requested: true }, POLICY), "cancelled")
+  })
+})
@@ -0,0 +1,91 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { getQueueHeads, planClaims, startOfNextUtcDay, summarizeUsage } from "../src/scheduler"
+import type { QueueHead, QuotaLimits, UserUsage } from "../src/scheduler"
+import { normalizeJob } from "../src/local"
+
+const UNLIMITED: QuotaLimits = { maxConcurrentJobs: 0, dailyRenderMinutes: 0 }
+
+function head(id: string, userId: string, createdAt: string, priority = 0): QueueHead {
+  return { id, user_id: userId, priority, created_at: createdAt, attempts: 0 }
+}
+
+function usage(fields: Partial<UserUsage>): UserUsage {
+  return { running: 0, renderSeconds: 0, lastClaimedAt: null, ...fields }
+}
+
+describe("planClaims", () => {
+  it("takes higher priority tiers first", () => {
+    const heads = [head("a", "alice", "2024-01-01T00:00:00Z"), head("vip", "bob", "2024-01-01T01:00:00Z", 10)]
+    const { order } = planClaims(heads, new Map(), () => UNLIMITED)
+    assert.deepEqual(order.map((h) => h.id), ["vip", "a"])
+  })
+
+  it("prefers users with fewer running jobs, then whoever was served longest ago", () => {
+    const heads = [
+      head("a", "alice", "2024-01-01T00:00:00Z"),
+      head("b", "bob", "2024-01-01T00:01:00Z"),
+      head("c", "carol", "2024-01-01T00:02:00Z"),
+    ]
+    const usageByUser = new Map([
+      ["alice", usage({ running: 1, lastClaimedAt: "2024-01-01T00:00:00Z" })],
+      ["bob", usage({ lastClaimedAt: "2024-01-01T00:05:00Z" })],
+      ["carol", usage({ lastClaimedAt: "2024-01-01T00:03:00Z" })],
+    ])
+    const { order } = planClaims(heads, usageByUser, () => UNLIMITED)
+    assert.deepEqual(order.map((h) => h.id), ["c", "b", "a"])
+  })
+
+  it("falls back to the oldest job between users with the same usage", () => {
+    const heads = [head("new", "alice", "2024-01-01T00:05:00Z"), head("old", "bob", "2024-01-01T00:00:00Z")]
+    const { order } = planClaims(heads, new Map(), () => UNLIMITED)
+    assert.deepEqual(order.map((h) => h.id), ["old", "new"])
+  })
+
+  it("skips users at their concurrency limit", () => {
+    const heads = [head("a", "alice", "2024-01-01T00:00:00Z"), head("b", "bob", "2024-01-01T00:01:00Z")]
+    const usageByUser = new Map([["alice", usage({ running: 2 })]])
+    const { order, overQuota } = planClaims(heads, usageByUser, () => ({ maxConcurrentJobs: 2, dailyRenderMinutes: 0 }))
+    assert.deepEqual(order.map((h) => h.id), ["b"])
+    assert.deepEqual(overQuota, [])
+  })
+
+  it("reports users out of render minutes instead of ordering their jobs", () => {
+    const limits: QuotaLimits = { maxConcurrentJobs: 0, dailyRenderMinutes: 10 }
+    const heads = [head("a", "alice", "2024-01-01T00:00:00Z"), head("a2", "alice", "2024-01-01T00:00:00Z", 5), head("b", "bob", "2024-01-01T00:01:00Z")]
+    const usageByUser = new Map([["alice", usage({ renderSeconds: 600 })], ["bob", usage({ renderSeconds: 599 })]])
+    const { order, overQuota } = planClaims(heads, usageByUser, () => limits)
+    assert.deepEqual(order.map((h) => h.id), ["b"])
+    assert.deepEqual(overQuota, [{ userId: "alice", limits }])
+  })
+})
+
+describe("summarizeUsage", () => {
+  const dayStart = new Date("2024-01-02T00:00:00Z")
+
+  it("counts running jobs and today's render seconds of running and finished jobs", () => {
+    const usageByUser = summarizeUsage([
+      { user_id: "alice", status: "processing", claimed_at: "2024-01-02T10:00:00Z", render_seconds: 30 },
+      { user_id: "alice", status: "done", claimed_at: "2024-01-02T09:00:00Z", render_seconds: 60 },
+      { user_id: "alice", status: "done", claimed_at: "2024-01-01T23:00:00Z", render_seconds: 600 },
+      { user_id: "alice", status: "failed", claimed_at: "2024-01-02T08:00:00Z", render_seconds: 45 },
+      { user_id: "alice", status: "processing", claimed_at: "2024-01-01T23:30:00Z", render_seconds: null },
+    ], dayStart)
+    assert.deepEqual(usageByUser.get("alice"), { running: 2, renderSeconds: 90, lastClaimedAt: "2024-01-02T10:00:00Z" })
+  })
+})
+
+describe("getQueueHeads", () => {
+  it("picks the oldest claimable job per user and tier, skipping ones backing off", () => {
+    const now = new Date("2024-01-02T00:00:00Z")
+    const jobs = [
+      normalizeJob({ id: "a1", user_id: "alice", created_at: "2024-01-01T00:00:00Z" }),
+      normalizeJob({ id: "a2", user_id: "alice", created_at: "2024-01-01T01:00:00Z" }),
+      normalizeJob({ id: "a3", user_id: "alice", created_at: "2024-01-01T02:00:00Z", priority: 1 }),
+      normalizeJob({ id: "b1", user_id: "bob", created_at: "2024-01-01T00:00:00Z", next_attempt_at: startOfNextUtcDay(now).toISOString() }),
+      normalizeJob({ id: "b2", user_id: "bob", created_at: "2024-01-01T03:00:00Z", status: "deferred", next_attempt_at: now.toISOString() }),
+      normalizeJob({ id: "c1", user_id: "carol", created_at: "2024-01-01T00:00:00Z", status: "processing" }),
+    ]
+    assert.deepEqual(getQueueHeads(jobs, now).map((h) => h.id).sort(), ["a1", "a3", "b2"])
+  })
+})
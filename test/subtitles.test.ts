@@ -0,0 +1,57 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { JobError } from "../src/errors"
+import { buildFFmpegArgs } from "../src/ffmpeg"
+import { OUTPUT_PRESETS } from "../src/presets"
+import { parseSubtitles } from "../src/subtitles"
+import { getFilterGraph, segmentInput } from "./helpers"
+
+describe("parseSubtitles", () => {
+  it("parses SRT cues and strips markup", () => {
+    const srt = "\uFEFF1\r\n00:00:01,000 --> 00:00:02,500\r\n<i>Hello</i>\r\nworld\r\n\r\n2\r\n00:00:03,000 --> 00:00:04,000\r\n{\\an8}Tom &amp; Jerry\r\n"
+    assert.deepEqual(parseSubtitles(srt, "demo.srt"), [
+      { start: 1, end: 2.5, text: "Hello\nworld" },
+      { start: 3, end: 4, text: "Tom & Jerry" },
+    ])
+  })
+
+  it("parses WebVTT cues, skipping the header, notes and cue settings", () => {
+    const vtt = "WEBVTT\n\nNOTE a comment\n\nintro\n00:01.000 --> 00:02.000 align:start\n<c.yellow>Hi</c>\n\n01:00:00.5 --> 01:00:01.000\nLater\n"
+    assert.deepEqual(parseSubtitles(vtt, "demo.vtt"), [
+      { start: 1, end: 2, text: "Hi" },
+      { start: 3600.5, end: 3601, text: "Later" },
+    ])
+  })
+
+  it("rejects malformed files with a permanent error naming the line", () => {
+    assert.throws(
+      () => parseSubtitles("1\n00:00:01,000 --> 00:00:61,000\nBad\n", "demo.srt"),
+      (error: unknown) => error instanceof JobError && error.errorClass === "permanent" && /line 2: malformed end time/.test(error.message)
+    )
+    assert.throws(() => parseSubtitles("00:00:02,000 --> 00:00:01,000\nBackwards\n", "demo.srt"), /cue ends before it starts/)
+    assert.throws(() => parseSubtitles("WEBVTT\n", "empty.vtt"), /no cues found/)
+  })
+})
+
+describe("subtitle burn-in", () => {
+  it("times cues against the trimmed segment and drops the ones outside it", () => {
+    const inputs = [
+      segmentInput(0),
+      {
+        ...segmentInput(1, { trim: { startTime: 2, endTime: 6, useFullVideo: false } }),
+        subtitles: [
+          { start: 1, end: 3, text: "First" },
+          { start: 4, end: 5, text: "Second" },
+          { start: 7, end: 8, text: "Cut off" },
+        ],
+      },
+    ]
+    const graph = getFilterGraph(buildFFmpegArgs(inputs, "/tmp/out.mp4", null, null, OUTPUT_PRESETS.tiktok).args)
+    const captions = graph.find((chain) => chain.startsWith("[vtl]"))!
+    const drawtexts = captions.replace(/\[outv\]$/, "").split(/(?:^\[vtl\]|,)drawtext=/).slice(1)
+
+    assert.equal(drawtexts.length, 2)
+    assert.match(drawtexts[0], /^text='First'.*:box=1:boxcolor=black@0\.5:boxborderw=12:enable='between\(t,5,6\)'$/)
+    assert.match(drawtexts[1], /^text='Second'.*:y='h\*85\/100-[\d.]+\+0'.*:enable='between\(t,7,8\)'$/)
+  })
+})
@@ -0,0 +1,45 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { normalizeJob } from "../src/local"
+import { getActiveTrim, getSegmentDuration, resolveTimeline } from "../src/timeline"
+
+describe("resolveTimeline", () => {
+  it("maps the classic hook and demo fields onto two segments", () => {
+    const job = normalizeJob({
+      intro_url: "https://example.com/hook.mp4",
+      main_url: "https://example.com/demo.mp4",
+      config: {
+        hookTrim: { startTime: 1, endTime: 3, useFullVideo: false },
+        hookEffect: { type: "zoom-in", intensity: "medium" },
+        transition: { type: "crossfade", duration: 500 },
+        demoSubtitlesUrl: "https://example.com/demo.srt",
+      },
+    })
+    assert.deepEqual(resolveTimeline(job), [
+      {
+        url: "https://example.com/hook.mp4",
+        trim: { startTime: 1, endTime: 3, useFullVideo: false },
+        effect: { type: "zoom-in", intensity: "medium" },
+        transition: { type: "crossfade", duration: 500 },
+      },
+      { url: "https://example.com/demo.mp4", trim: undefined, effect: undefined, subtitlesUrl: "https://example.com/demo.srt" },
+    ])
+  })
+
+  it("uses config.segments when it's set", () => {
+    const segments = [{ url: "https://example.com/a.mp4" }, { url: "https://example.com/b.mp4" }, { url: "https://example.com/c.mp4" }]
+    assert.deepEqual(resolveTimeline(normalizeJob({ intro_url: "https://example.com/ignored.mp4", config: { segments } })), segments)
+  })
+})
+
+describe("segment trims", () => {
+  it("uses the trim window unless the full clip is requested", () => {
+    const trimmed = { url: "a.mp4", trim: { startTime: 2, endTime: 4.5, useFullVideo: false } }
+    const full = { url: "a.mp4", trim: { startTime: 2, endTime: 4.5, useFullVideo: true } }
+    assert.deepEqual(getActiveTrim(trimmed), trimmed.trim)
+    assert.equal(getSegmentDuration(trimmed, 10), 2.5)
+    assert.equal(getActiveTrim(full), null)
+    assert.equal(getSegmentDuration(full, 10), 10)
+    assert.equal(getSegmentDuration({ url: "a.mp4" }, 7), 7)
+  })
+})
@@ -0,0 +1,35 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { ValidationError } from "../src/errors"
+import { normalizeJob } from "../src/local"
+import { validateJob } from "../src/validation"
+import type { JobConfig } from "../src/types"
+
+describe("validateJob", () => {
+  it("lists every field problem in one error", () => {
+    const job = normalizeJob({
+      intro_url: "ftp://example.com/intro.mp4",
+      main_url: "not a url",
+      hook_text: 42 as unknown as string,
+      config: { transition: { type: "spin", duration: -1 } } as unknown as JobConfig,
+    })
+    assert.throws(() => validateJob(job), (error: unknown) => {
+      assert.ok(error instanceof ValidationError)
+      assert.equal(error.errorClass, "permanent")
+      assert.deepEqual(error.fieldErrors.map((e) => e.field), [
+        "hook_text",
+        "intro_url",
+        "main_url",
+        "config.transition.type",
+        "config.transition.duration",
+      ])
+      return true
+    })
+  })
+
+  it("rejects a config that isn't an object", () => {
+    const job = normalizeJob({ config: [] as unknown as JobConfig })
+    assert.throws(() => validateJob(job), (error: unknown) =>
+      error instanceof ValidationError && error.fieldErrors.some((e) => e.field === "config"))
+  })
+})
@@ -0,0 +1,77 @@
+import assert from "node:assert/strict"
+import { afterEach, beforeEach, describe, it, mock } from "node:test"
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { subscribeToJobWakeups } from "../src/wakeups"
+
+type ChangeHandler = (payload: { new: { next_attempt_at?: string | null } }) => void
+
+// Just enough of a Supabase client to capture the change handlers
+function fakeSupabase() {
+  const handlers: ChangeHandler[] = []
+  const channel = {
+    on(_type: string, _filter: object, handler: ChangeHandler) {
+      handlers.push(handler)
+      return channel
+    },
+    subscribe() {
+      return channel
+    },
+  }
+  const supabase = {
+    channel: () => channel,
+    removeChannel: async () => "ok",
+  } as unknown as SupabaseClient
+
+  return {
+    supabase,
+    emit(nextAttemptAt: number | null) {
+      handlers[1]({ new: { next_attempt_at: nextAttemptAt === null ? null : new Date(nextAttemptAt).toISOString() } })
+    },
+  }
+}
+
+describe("subscribeToJobWakeups", () => {
+  beforeEach(() => {
+    mock.timers.enable({ apis: ["Date", "setTimeout"], now: 1_000_000 })
+  })
+
+  afterEach(() => {
+    mock.timers.reset()
+  })
+
+  it("wakes up right away for a job that's claimable now", () => {
+    const { supabase, emit } = fakeSupabase()
+    let wakeups = 0
+    subscribeToJobWakeups(supabase, () => wakeups++)
+
+    emit(null)
+    emit(Date.now() - 1000)
+    assert.equal(wakeups, 2)
+  })
+
+  it("holds back a retry's wakeup until its next_attempt_at", () => {
+    const { supabase, emit } = fakeSupabase()
+    let wakeups = 0
+    subscribeToJobWakeups(supabase, () => wakeups++)
+
+    emit(Date.now() + 20_000)
+    emit(Date.now() + 5_000)
+    assert.equal(wakeups, 0)
+
+    mock.timers.tick(5_000)
+    assert.equal(wakeups, 1)
+    mock.timers.tick(15_000)
+    assert.equal(wakeups, 2)
+  })
+
+  it("drops pending retry wakeups on unsubscribe", async () => {
+    const { supabase, emit } = fakeSupabase()
+    let wakeups = 0
+    const unsubscribe = subscribeToJobWakeups(supabase, () => wakeups++)
+
+    emit(Date.now() + 5_000)
+    await unsubscribe()
+    mock.timers.tick(5_000)
+    assert.equal(wakeups, 0)
+  })
+})
@@ -0,0 +1,82 @@
+import assert from "node:assert/strict"
+import { describe, it } from "node:test"
+import { ValidationError } from "../src/errors"
+import { buildFFmpegArgs } from "../src/ffmpeg"
+import { normalizeJob } from "../src/local"
+import { OUTPUT_PRESETS } from "../src/presets"
+import type { UserSettings } from "../src/types"
+import { buildWatermarkFilters, resolveWatermark } from "../src/watermark"
+import { getFilterGraph, segmentInput } from "./helpers"
+
+const TIKTOK = OUTPUT_PRESETS.tiktok
+const LOGO = "https://project.supabase.co/storage/v1/object/public/videos/logo.png"
+
+describe("buildWatermarkFilters", () => {
+  it("scales the image to the frame and puts it in a corner", () => {
+    assert.deepEqual(buildWatermarkFilters(2, { url: LOGO }, TIKTOK, 5, "vtl", "vwm"), [
+      "[2:v]scale=162:-1,format=rgba,colorchannelmixer=aa=1[wm]",
+      "[vtl][wm]overlay=x=W-w-43:y=H-h-43[vwm]",
+    ])
+    const [, topLeft] = buildWatermarkFilters(2, { url: LOGO, position: "top-left", scale: 0.5, opacity: 0.4 }, OUTPUT_PRESETS.youtube, 5, "vtl", "vwm")
+    assert.equal(topLeft, "[vtl][wm]overlay=x=43:y=43[vwm]")
+  })
+
+  it("centers the image on a custom point", () => {
+    const [scale, overlay] = buildWatermarkFilters(3, { url: LOGO, position: { x: 50, y: 10 }, opacity: 0.5 }, TIKTOK, 5, "vtl", "vwm")
+    assert.equal(scale, "[3:v]scale=162:-1,format=rgba,colorchannelmixer=aa=0.5[wm]")
+    assert.equal(overlay, "[vtl][wm]overlay=x=W*50/100-w/2:y=H*10/100-h/2[vwm]")
+  })
+
+  it("limits the overlay to the hook or the demo", () => {
+    assert.match(buildWatermarkFilters(2, { url: LOGO, appliesTo: "hook" }, TIKTOK, 4.5, "vtl", "vwm")[1], /:enable='lt\(t,4\.5\)'\[vwm\]$/)
+    assert.match(buildWatermarkFilters(2, { url: LOGO, appliesTo: "demo" }, TIKTOK, 4.5, "vtl", "vwm")[1], /:enable='gte\(t,4\.5\)'\[vwm\]$/)
+  })
+
+  it("goes over the timeline below the captions", () => {
+    const inputs = [segmentInput(0, { transition: { type: "crossfade", duration: 1000 } }), segmentInput(1)]
+    const config = { captions: [{ text: "Caption", startTime: 0, endTime: 2 }] }
+    const command = buildFFmpegArgs(inputs, "/tmp/out.mp4", null, config, TIKTOK, { watermark: { path: "/tmp/logo.png", watermark: { url: LOGO, appliesTo: "hook" } } })
+    const graph = getFilterGraph(command.args)
+
+    assert.deepEqual(command.args.slice(command.args.indexOf("/tmp/logo.png") - 1, command.args.indexOf("/tmp/logo.png") + 1), ["-i", "/tmp/logo.png"])
+    assert.ok(graph.includes("[vtl][wm]overlay=x=W-w-43:y=H-h-43:enable='lt(t,4)'[vwm]"))
+    assert.ok(graph.some((chain) => chain.startsWith("[2:v]scale=")))
+    assert.ok(graph.some((chain) => chain.startsWith("[vwm]drawtext=text='Caption'")))
+  })
+})
+
+describe("resolveWatermark", () => {
+  function queueWith(settings: Partial<UserSettings> | null) {
+    return {
+      async getUserSettings(userId: string) {
+        return settings ? { user_id: userId, default_watermark: null, ...settings } : null
+      },
+    }
+  }
+
+  it("prefers the job's watermark, and lets a job opt out of the default", async () => {
+    const queue = queueWith({ default_watermark: { url: LOGO, position: "top-left" } })
+    assert.deepEqual(await resolveWatermark(queue, normalizeJob({ config: { watermark: { url: LOGO } } })), { url: LOGO })
+    assert.equal(await resolveWatermark(queue, normalizeJob({ config: { watermark: null } })), null)
+  })
+
+  it("falls back to the user's validated default", async () => {
+    const previous = process.env.SUPABASE_URL
+    process.env.SUPABASE_URL = "https://project.supabase.co"
+    try {
+      const job = normalizeJob({ config: {} })
+      assert.deepEqual(await resolveWatermark(queueWith({ default_watermark: { url: LOGO, position: "top-left" } }), job), { url: LOGO, position: "top-left" })
+      assert.equal(await resolveWatermark(queueWith(null), job), null)
+      await assert.rejects(
+        resolveWatermark(queueWith({ default_watermark: { url: LOGO, opacity: 2 } }), job),
+        (error: unknown) => error instanceof ValidationError && error.fieldErrors[0].field === "user_settings.default_watermark.opacity"
+      )
+    } finally {
+      if (previous === undefined) {
+        delete process.env.SUPABASE_URL
+      } else {
+        process.env.SUPABASE_URL = previous
+      }
+    }
+  })
+})